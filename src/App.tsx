@@ -1,130 +1,254 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Navigate, Route, Routes, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { LoginForm } from '@/components/LoginForm';
 import { DashboardLayout } from '@/components/DashboardLayout';
 import { DashboardOverview } from '@/components/DashboardOverview';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
 import { ProjectsManagement } from '@/components/ProjectsManagement';
 import { SkillsManagement } from '@/components/SkillsManagement';
 import { MessagesManagement } from '@/components/MessagesManagement';
 import { UrlManagement } from '@/components/UrlManagement';
+import { useOptimisticMutation } from '@/hooks/useOptimisticMutation';
+import { useQuery } from '@/hooks/useQuery';
+import { useLinkHealth } from '@/hooks/useLinkHealth';
+import { useUndoableDelete } from '@/hooks/useUndoableDelete';
 import { authAPI, projectsAPI, skillsAPI, messagesAPI, urlAPI } from '@/lib/api';
+import { DEFAULT_MESSAGE_QUERY, parseMessageQuery, toMessageSearchParams, type MessageQuery } from '@/lib/messages';
+import { notify } from '@/lib/notify';
+import { queryClient, queryKeys } from '@/lib/queryClient';
+import {
+  clearSession,
+  getSafeReturnPath,
+  LOGIN_PATH,
+  expireSession,
+  hasActiveSession,
+  onSessionEvent,
+  watchTokenExpiry,
+} from '@/lib/session';
+import type {
+  ContactMessage,
+  LinkHealth,
+  MessageCounts,
+  MessageLabel,
+  MessageLabelInput,
+  MessagePage,
+  MessagePatch,
+  MessageReplyInput,
+  PaginatedResponse,
+  PaginationInfo,
+  Project,
+  ProjectInput,
+  ShortenedUrl,
+  Skill,
+  SkillCategory,
+  SkillInput,
+  UrlCreateInput,
+  UrlUpdateInput,
+} from '@/lib/types';
 import './App.css';
 
-interface Project {
-  _id: string;
-  name: string;
-  description: string;
-  thumbnail: string;
-  demoLink: string;
-  sourceCodeLink: string;
-}
+const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please sign in again.';
+const SESSION_TOAST_ID = 'session-expiry';
+const URLS_PER_PAGE = 20;
+const MESSAGES_PER_PAGE = 20;
 
-interface Skill {
-  _id: string;
-  name: string;
-  image: string;
-}
+const EMPTY_LINK_HEALTH: Record<string, LinkHealth> = {};
 
-interface ContactMessage {
-  _id: string;
-  name: string;
-  email: string;
-  phoneNo?: string;
-  subject: string;
-  message: string;
-  createdAt?: string;
-  isRead?: boolean;
-}
+const EMPTY_MESSAGE_COUNTS: MessageCounts = { inbox: 0, unread: 0, archived: 0, spam: 0 };
 
-interface ShortenedUrl {
-  _id: string;
-  shortenUrl: string;
-  fullUrl: string;
-  clicks: number;
-  userId: string;
-  isDeleted: boolean;
-  createdAt?: string;
-}
+const EMPTY_PAGINATION: PaginationInfo = {
+  currentPage: 1,
+  totalPages: 1,
+  totalItems: 0,
+  hasNext: false,
+  hasPrev: false
+};
+
+const extendSession = async () => {
+  if (!(await authAPI.refresh())) {
+    notify.error(null, 'Your session could not be extended. Save your work and sign in again.', { id: SESSION_TOAST_ID });
+  }
+};
+
+// Placeholder id for records the server hasn't created yet; unique even for creates in the same millisecond
+const TEMP_ID_PREFIX = 'pending-';
+const createTempId = () => `${TEMP_ID_PREFIX}${crypto.randomUUID()}`;
+const isTempId = (id: string) => id.startsWith(TEMP_ID_PREFIX);
+
+// Id under which a reorder is tracked, since it touches every record at once
+const REORDER_ID = 'reorder';
+
+// Id under which a change to several selected records is tracked
+const BULK_ID = 'bulk';
+
+// Puts cached records in the given order and renumbers them to match what the server will store
+const applyOrder = <T extends { _id: string; order?: number }>(items: T[], ids: string[]) => {
+  const position = new Map(ids.map((id, index) => [id, index]));
+  return [...items]
+    .sort((a, b) => (position.get(a._id) ?? items.length) - (position.get(b._id) ?? items.length))
+    .map((item, order) => ({ ...item, order }));
+};
+
+/**
+ * Full order for a reorder of the records on screen: the slots they held in the
+ * cached list are refilled in their new order, while records hidden during an
+ * undo-delete keep their old place.
+ */
+const mergeOrder = (items: { _id: string }[], ids: string[]) => {
+  const moved = new Set(ids);
+  let next = 0;
+  return items.map((item) => (moved.has(item._id) ? ids[next++] : item._id));
+};
 
 function App() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [activeSection, setActiveSection] = useState('overview');
   const [loading, setLoading] = useState(true);
-  
-  // Data states
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [skills, setSkills] = useState<Skill[]>([]);
-  const [messages, setMessages] = useState<ContactMessage[]>([]);
-  const [urls, setUrls] = useState<ShortenedUrl[]>([]);
-  
-  // Pagination states
-  const [urlPagination, setUrlPagination] = useState({
-    currentPage: 1,
-    totalPages: 1,
-    totalItems: 0,
-    hasNext: false,
-    hasPrev: false
+
+  // The URL list page lives in the query string (`/urls?page=3`) so it survives a refresh
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const isUrlsRoute = location.pathname.startsWith('/urls');
+  const urlPage = isUrlsRoute ? Math.max(1, Number(searchParams.get('page')) || 1) : 1;
+  // Elsewhere the first inbox page still loads, for the unread count in the sidebar
+  const isMessagesRoute = location.pathname.startsWith('/messages');
+  const messageQuery = useMemo(
+    () => (isMessagesRoute ? parseMessageQuery(searchParams) : DEFAULT_MESSAGE_QUERY),
+    [isMessagesRoute, searchParams],
+  );
+
+  // Data queries, cached per resource so a mutation only refreshes what it touched
+  const projectsQuery = useQuery(queryKeys.projects, projectsAPI.getAll, {
+    enabled: isAuthenticated,
+    onError: (error) => notify.error(error, 'Failed to load projects'),
+  });
+  const skillsQuery = useQuery(queryKeys.skills, skillsAPI.getAll, {
+    enabled: isAuthenticated,
+    onError: (error) => notify.error(error, 'Failed to load skills'),
+  });
+  const skillCategoriesQuery = useQuery(queryKeys.skillCategories, skillsAPI.getCategories, {
+    enabled: isAuthenticated,
+    onError: (error) => notify.error(error, 'Failed to load skill categories'),
+  });
+  const messagesQuery = useQuery(
+    queryKeys.messagePage(messageQuery, MESSAGES_PER_PAGE),
+    () => messagesAPI.getAll(messageQuery, MESSAGES_PER_PAGE),
+    {
+      enabled: isAuthenticated,
+      keepPreviousData: true,
+      onError: (error) => notify.error(error, 'Failed to load messages'),
+    },
+  );
+  const messageLabelsQuery = useQuery(queryKeys.messageLabels, messagesAPI.getLabels, {
+    enabled: isAuthenticated,
+    onError: (error) => notify.error(error, 'Failed to load message labels'),
   });
-  const [currentUrlPage, setCurrentUrlPage] = useState(1);
+  const urlsQuery = useQuery(
+    queryKeys.urlPage(urlPage, URLS_PER_PAGE),
+    () => urlAPI.getAll(urlPage, URLS_PER_PAGE),
+    {
+      enabled: isAuthenticated,
+      keepPreviousData: true,
+      onError: (error) => notify.error(error, 'Failed to load URLs'),
+    },
+  );
+
+  // Mutations apply to the cached lists right away and roll back if the server rejects them
+  const projectMutations = useOptimisticMutation<Project[]>();
+  const skillMutations = useOptimisticMutation<Skill[]>();
+  const skillCategoryMutations = useOptimisticMutation<SkillCategory[]>();
+  const messageMutations = useOptimisticMutation<MessagePage>();
+  const messageLabelMutations = useOptimisticMutation<MessageLabel[]>();
+  const urlMutations = useOptimisticMutation<PaginatedResponse<ShortenedUrl>>();
+
+  // Deletes stay hidden during their undo window and are only sent afterwards
+  const projectDeletes = useUndoableDelete();
+  const skillDeletes = useUndoableDelete();
+  const messageDeletes = useUndoableDelete();
+  const urlDeletes = useUndoableDelete();
+
+  const projects = (projectsQuery.data ?? []).filter((project) => !projectDeletes.hiddenIds.has(project._id));
+  const skills = (skillsQuery.data ?? []).filter((skill) => !skillDeletes.hiddenIds.has(skill._id));
+  const skillCategories = skillCategoriesQuery.data ?? [];
+  const messages = (messagesQuery.data?.data ?? []).filter((message) => !messageDeletes.hiddenIds.has(message._id));
+  const messagePagination = messagesQuery.data?.pagination ?? EMPTY_PAGINATION;
+  const messageCounts = messagesQuery.data?.counts ?? EMPTY_MESSAGE_COUNTS;
+  const messageLabels = messageLabelsQuery.data ?? [];
+  const urls = (urlsQuery.data?.data ?? []).filter((url) => !urlDeletes.hiddenIds.has(url._id));
+  const urlPagination = urlsQuery.data?.pagination ?? EMPTY_PAGINATION;
+
+  // Project links (and optionally short URL targets) are re-checked periodically while signed in
+  const linkHealth = useLinkHealth({ projects, enabled: isAuthenticated });
+  const linkHealthByUrl = linkHealth.report?.byUrl ?? EMPTY_LINK_HEALTH;
+
+  // Session states
+  const [sessionNotice, setSessionNotice] = useState('');
+  const [tokenVersion, setTokenVersion] = useState(0);
 
   useEffect(() => {
-    // Check if user is already authenticated (you might want to implement proper token storage)
-    const isLoggedIn = localStorage.getItem('isAuthenticated') === 'true';
+    // A stored session only counts if its token hasn't expired in the meantime
+    const wasLoggedIn = localStorage.getItem('isAuthenticated') === 'true';
+    const isLoggedIn = hasActiveSession();
+    if (wasLoggedIn && !isLoggedIn) {
+      clearSession();
+      setSessionNotice(SESSION_EXPIRED_MESSAGE);
+    }
     setIsAuthenticated(isLoggedIn);
     setLoading(false);
   }, []);
 
   useEffect(() => {
-    if (isAuthenticated) {
-      loadDashboardData();
-    }
-  }, [isAuthenticated]);
+    return onSessionEvent((event) => {
+      switch (event.type) {
+        case 'expiring':
+          notify.warning(
+            `Your session expires at ${new Date(event.expiresAt).toLocaleTimeString()}.`,
+            { label: 'Stay signed in', onClick: extendSession },
+            { id: SESSION_TOAST_ID },
+          );
+          break;
+        case 'refreshed':
+          notify.dismiss(SESSION_TOAST_ID);
+          setTokenVersion((version) => version + 1);
+          break;
+        case 'expired':
+          // ProtectedRoute sends the user to the login page with the current path as `returnTo`
+          queryClient.clear();
+          notify.dismiss(SESSION_TOAST_ID);
+          setSessionNotice(SESSION_EXPIRED_MESSAGE);
+          setIsAuthenticated(false);
+          break;
+      }
+    });
+  }, []);
 
-  const loadDashboardData = async () => {
-    try {
-      const [projectsData, skillsData, messagesData] = await Promise.all([
-        projectsAPI.getAll().catch(() => []),
-        skillsAPI.getAll().catch(() => []),
-        messagesAPI.getAll().catch(() => []),
-      ]);
-
-      setProjects(projectsData);
-      setSkills(skillsData);
-      setMessages(messagesData);
-      
-      // Load URLs separately with pagination
-      await loadUrlsData(currentUrlPage);
-    } catch (error) {
-      console.error('Failed to load dashboard data:', error);
-    }
-  };
+  useEffect(() => {
+    if (!isAuthenticated) return;
 
-  const loadUrlsData = async (page: number = 1) => {
-    try {
-      const urlsResponse = await urlAPI.getAll(page, 20);
-      setUrls(urlsResponse.data);
-      setUrlPagination(urlsResponse.pagination);
-    } catch (error) {
-      console.error('Failed to load URLs:', error);
-      setUrls([]);
-      setUrlPagination({
-        currentPage: 1,
-        totalPages: 1,
-        totalItems: 0,
-        hasNext: false,
-        hasPrev: false
-      });
-    }
-  };
+    // When the token runs out, try to refresh it before giving up on the session
+    return watchTokenExpiry(async () => {
+      if (!(await authAPI.refresh())) {
+        expireSession();
+      }
+    });
+  }, [isAuthenticated, tokenVersion]);
 
-  const handleUrlPageChange = async (page: number) => {
-    setCurrentUrlPage(page);
-    await loadUrlsData(page);
+  const handleUrlPageChange = (page: number) => {
+    setSearchParams({ page: String(page) });
   };
 
+  const handleMessageQueryChange = useCallback(
+    (query: MessageQuery) => {
+      setSearchParams(toMessageSearchParams(query));
+    },
+    [setSearchParams],
+  );
+
   const handleLogin = async (email: string, password: string) => {
     try {
       await authAPI.login(email, password);
-      localStorage.setItem('isAuthenticated', 'true');
+      setSessionNotice('');
+      // The login route redirects to `returnTo` once we're authenticated
       setIsAuthenticated(true);
     } catch (error) {
       console.error('Login failed:', error);
@@ -138,57 +262,219 @@ function App() {
     } catch (error) {
       console.error('Logout error:', error);
     }
-    localStorage.removeItem('isAuthenticated');
+    queryClient.clear();
     setIsAuthenticated(false);
-    setActiveSection('overview');
+    notify.dismiss(SESSION_TOAST_ID);
+    navigate(LOGIN_PATH, { replace: true });
   };
 
   // Project handlers
-  const handleAddProject = async (projectData: Omit<Project, '_id'> | FormData) => {
-    await projectsAPI.create(projectData);
-    await loadDashboardData();
+  const handleAddProject = async (projectData: ProjectInput, thumbnailFile?: File | null) => {
+    const tempId = createTempId();
+    await projectMutations.run(tempId, {
+      queryKey: queryKeys.projects,
+      update: (current) => [...current, { ...projectData, _id: tempId, createdAt: new Date().toISOString() }],
+      mutate: () => projectsAPI.create(projectData, thumbnailFile),
+    });
+  };
+
+  const handleUpdateProject = async (id: string, projectData: ProjectInput, thumbnailFile?: File | null) => {
+    await projectMutations.run(id, {
+      queryKey: queryKeys.projects,
+      update: (current) => current.map((project) => (project._id === id ? { ...project, ...projectData } : project)),
+      mutate: () => projectsAPI.update(id, projectData, thumbnailFile),
+    });
   };
 
-  const handleUpdateProject = async (id: string, projectData: Omit<Project, '_id'> | FormData) => {
-    await projectsAPI.update(id, projectData);
-    await loadDashboardData();
+  const handleReorderProjects = async (ids: string[]) => {
+    const order = mergeOrder(projectsQuery.data ?? [], ids);
+    await projectMutations.run(REORDER_ID, {
+      queryKey: queryKeys.projects,
+      update: (current) => applyOrder(current, order),
+      // Records still being created aren't on the server yet
+      mutate: () => projectsAPI.reorder(order.filter((id) => !isTempId(id))),
+    });
   };
 
-  const handleDeleteProject = async (id: string) => {
-    await projectsAPI.delete(id);
-    await loadDashboardData();
+  const handleDeleteProject = (project: Project) => {
+    projectDeletes.remove(project._id, {
+      queryKey: queryKeys.projects,
+      mutate: (options) => projectsAPI.delete(project._id, options),
+      message: `Deleted project "${project.name}"`,
+      errorMessage: `Failed to delete project "${project.name}"`,
+    });
   };
 
   // Skill handlers
-  const handleAddSkill = async (skillData: Omit<Skill, '_id'> | FormData) => {
-    await skillsAPI.create(skillData);
-    await loadDashboardData();
+  const handleAddSkill = async (skillData: SkillInput, imageFile?: File | null) => {
+    const tempId = createTempId();
+    await skillMutations.run(tempId, {
+      queryKey: queryKeys.skills,
+      update: (current) => [...current, { ...skillData, _id: tempId }],
+      mutate: () => skillsAPI.create(skillData, imageFile),
+    });
+  };
+
+  const handleUpdateSkill = async (id: string, skillData: SkillInput, imageFile?: File | null) => {
+    await skillMutations.run(id, {
+      queryKey: queryKeys.skills,
+      update: (current) => current.map((skill) => (skill._id === id ? { ...skill, ...skillData } : skill)),
+      mutate: () => skillsAPI.update(id, skillData, imageFile),
+    });
+  };
+
+  const handleReorderSkills = async (ids: string[]) => {
+    const order = mergeOrder(skillsQuery.data ?? [], ids);
+    await skillMutations.run(REORDER_ID, {
+      queryKey: queryKeys.skills,
+      update: (current) => applyOrder(current, order),
+      mutate: () => skillsAPI.reorder(order.filter((id) => !isTempId(id))),
+    });
+  };
+
+  const handleDeleteSkill = (skill: Skill) => {
+    skillDeletes.remove(skill._id, {
+      queryKey: queryKeys.skills,
+      mutate: (options) => skillsAPI.delete(skill._id, options),
+      message: `Deleted skill "${skill.name}"`,
+      errorMessage: `Failed to delete skill "${skill.name}"`,
+    });
+  };
+
+  // Skill category handlers
+  const handleCreateSkillCategory = async (name: string) => {
+    const tempId = createTempId();
+    await skillCategoryMutations.run(tempId, {
+      queryKey: queryKeys.skillCategories,
+      update: (current) => [...current, { _id: tempId, name }],
+      mutate: () => skillsAPI.createCategory(name),
+    });
+  };
+
+  const handleRenameSkillCategory = async (id: string, name: string) => {
+    await skillCategoryMutations.run(id, {
+      queryKey: queryKeys.skillCategories,
+      update: (current) => current.map((category) => (category._id === id ? { ...category, name } : category)),
+      mutate: () => skillsAPI.renameCategory(id, name),
+    });
+  };
+
+  const handleReorderSkillCategories = async (ids: string[]) => {
+    const order = mergeOrder(skillCategoriesQuery.data ?? [], ids);
+    await skillCategoryMutations.run(REORDER_ID, {
+      queryKey: queryKeys.skillCategories,
+      update: (current) => applyOrder(current, order),
+      mutate: () => skillsAPI.reorderCategories(order.filter((id) => !isTempId(id))),
+    });
   };
 
-  const handleUpdateSkill = async (id: string, skillData: Omit<Skill, '_id'> | FormData) => {
-    await skillsAPI.update(id, skillData);
-    await loadDashboardData();
+  // Message handlers; updates and deletes work on a selection, which is often a single message
+  const handleUpdateMessages = async (ids: string[], patch: MessagePatch) => {
+    await messageMutations.run(ids.length === 1 ? ids[0] : BULK_ID, {
+      queryKey: queryKeys.messages,
+      update: (page) => ({
+        ...page,
+        data: page.data.map((message) => (ids.includes(message._id) ? { ...message, ...patch } : message)),
+      }),
+      mutate: () => messagesAPI.update(ids, patch),
+    });
   };
 
-  const handleDeleteSkill = async (id: string) => {
-    await skillsAPI.delete(id);
-    await loadDashboardData();
+  const handleReplyToMessage = async (id: string, reply: MessageReplyInput) => {
+    const sentReply = { ...reply, _id: createTempId(), sentAt: new Date().toISOString() };
+    await messageMutations.run(id, {
+      queryKey: queryKeys.messages,
+      update: (page) => ({
+        ...page,
+        data: page.data.map((message) =>
+          message._id === id ? { ...message, replies: [...message.replies, sentReply] } : message,
+        ),
+      }),
+      mutate: () => messagesAPI.reply(id, reply),
+    });
   };
 
-  // URL handlers
-  const handleAddUrl = async (urlData: { fullUrl: string }) => {
-    await urlAPI.create(urlData);
-    await loadUrlsData(currentUrlPage);
+  const handleMarkSpam = async (ids: string[], isSpam: boolean) => {
+    await handleUpdateMessages(ids, { isSpam });
+    // Training the filter is best effort; the messages have already moved
+    messagesAPI.reportSpam(ids, isSpam).catch((error) => console.error('Spam report failed:', error));
   };
 
-  const handleUpdateUrl = async (id: string, urlData: { fullUrl: string; shortCode: string }) => {
-    await urlAPI.update(id, urlData);
-    await loadUrlsData(currentUrlPage);
+  const handlePurgeSpam = async () => {
+    await messageMutations.run(BULK_ID, {
+      queryKey: queryKeys.messages,
+      update: (page) => ({ ...page, data: page.data.filter((message) => !message.isSpam) }),
+      mutate: () => messagesAPI.purgeSpam(),
+    });
   };
 
-  const handleDeleteUrl = async (id: string) => {
-    await urlAPI.delete(id);
-    await loadUrlsData(currentUrlPage);
+  const handleDeleteMessages = (targets: ContactMessage[]) => {
+    const ids = targets.map((message) => message._id);
+    const label = targets.length === 1 ? `message from ${targets[0].name}` : `${targets.length} messages`;
+    messageDeletes.remove(ids.join(','), {
+      queryKey: queryKeys.messages,
+      mutate: (options) => messagesAPI.delete(ids, options),
+      hideIds: ids,
+      message: `Deleted ${label}`,
+      errorMessage: `Failed to delete ${label}`,
+    });
+  };
+
+  // Message label handlers
+  const handleCreateMessageLabel = async (label: MessageLabelInput) => {
+    const tempId = createTempId();
+    await messageLabelMutations.run(tempId, {
+      queryKey: queryKeys.messageLabels,
+      update: (current) => [...current, { ...label, _id: tempId }],
+      mutate: () => messagesAPI.createLabel(label),
+    });
+  };
+
+  const handleUpdateMessageLabel = async (id: string, label: MessageLabelInput) => {
+    await messageLabelMutations.run(id, {
+      queryKey: queryKeys.messageLabels,
+      update: (current) => current.map((existing) => (existing._id === id ? { ...existing, ...label } : existing)),
+      mutate: () => messagesAPI.updateLabel(id, label),
+    });
+  };
+
+  const handleDeleteMessageLabel = async (id: string) => {
+    await messageLabelMutations.run(id, {
+      queryKey: queryKeys.messageLabels,
+      update: (current) => current.filter((label) => label._id !== id),
+      mutate: () => messagesAPI.deleteLabel(id),
+    });
+    // The backend took the label off its messages too
+    await queryClient.invalidate(queryKeys.messages);
+  };
+
+  // URL handlers (every cached page is patched, since we don't know which one holds the row)
+  const handleAddUrl = async (urlData: UrlCreateInput) => {
+    const tempId = createTempId();
+    await urlMutations.run(tempId, {
+      queryKey: queryKeys.urls,
+      update: (page) => page.pagination.currentPage === 1
+        ? { ...page, data: [{ _id: tempId, shortenUrl: '…', clicks: 0, ...urlData }, ...page.data] }
+        : page,
+      mutate: () => urlAPI.create(urlData),
+    });
+  };
+
+  const handleUpdateUrl = async (id: string, urlData: UrlUpdateInput) => {
+    await urlMutations.run(id, {
+      queryKey: queryKeys.urls,
+      update: (page) => ({ ...page, data: page.data.map((url) => (url._id === id ? { ...url, ...urlData } : url)) }),
+      mutate: () => urlAPI.update(id, urlData),
+    });
+  };
+
+  const handleDeleteUrl = (url: ShortenedUrl) => {
+    urlDeletes.remove(url._id, {
+      queryKey: queryKeys.urls,
+      mutate: (options) => urlAPI.delete(url._id, options),
+      message: `Deleted short URL "${url.shortenUrl}"`,
+      errorMessage: `Failed to delete short URL "${url.shortenUrl}"`,
+    });
   };
 
   if (loading) {
@@ -202,68 +488,118 @@ function App() {
     );
   }
 
-  if (!isAuthenticated) {
-    return <LoginForm onLogin={handleLogin} />;
-  }
-
-  const renderContent = () => {
-    switch (activeSection) {
-      case 'overview':
-        return (
-          <DashboardOverview 
-            stats={{
-              projects: projects.length,
-              skills: skills.length,
-              messages: messages.length,
-              urls: urlPagination.totalItems,
-            }}
-          />
-        );
-      case 'projects':
-        return (
-          <ProjectsManagement
-            projects={projects}
-            onAddProject={handleAddProject}
-            onUpdateProject={handleUpdateProject}
-            onDeleteProject={handleDeleteProject}
-          />
-        );
-      case 'skills':
-        return (
-          <SkillsManagement
-            skills={skills}
-            onAddSkill={handleAddSkill}
-            onUpdateSkill={handleUpdateSkill}
-            onDeleteSkill={handleDeleteSkill}
-          />
-        );
-      case 'messages':
-        return <MessagesManagement messages={messages} />;
-      case 'urls':
-        return (
-          <UrlManagement
-            urls={urls}
-            pagination={urlPagination}
-            currentPage={currentUrlPage}
-            onPageChange={handleUrlPageChange}
-            onAddUrl={handleAddUrl}
-            onUpdateUrl={handleUpdateUrl}
-            onDeleteUrl={handleDeleteUrl}
-          />
-        );
-      default:
-        return <DashboardOverview stats={{ projects: 0, skills: 0, messages: 0, urls: 0 }} />;
-    }
-  };
-
   return (
-    <DashboardLayout
-      activeSection={activeSection}
-      onSectionChange={setActiveSection}
-      onLogout={handleLogout}
-    >
-      {renderContent()}
-    </DashboardLayout>
+    <Routes>
+      <Route
+        path={LOGIN_PATH}
+        element={
+          isAuthenticated ? (
+            <Navigate to={getSafeReturnPath(searchParams.get('returnTo'))} replace />
+          ) : (
+            <LoginForm onLogin={handleLogin} notice={sessionNotice} />
+          )
+        }
+      />
+      <Route
+        path="/*"
+        element={
+          <ProtectedRoute isAuthenticated={isAuthenticated}>
+            <DashboardLayout onLogout={handleLogout} unreadMessages={messageCounts.unread}>
+              <Routes>
+                <Route
+                  path="/"
+                  element={
+                    <DashboardOverview
+                      stats={{
+                        projects: projects.length,
+                        skills: skills.length,
+                        messages: messageCounts.inbox + messageCounts.archived,
+                        urls: urlPagination.totalItems,
+                      }}
+                      linkHealth={linkHealth}
+                    />
+                  }
+                />
+                {/* Section routes also match their `/new` and `/:id/edit` dialog sub-routes */}
+                <Route
+                  path="/projects/*"
+                  element={
+                    <ProjectsManagement
+                      projects={projects}
+                      skills={skills}
+                      linkHealth={linkHealthByUrl}
+                      pendingIds={projectMutations.pendingIds}
+                      onAddProject={handleAddProject}
+                      onUpdateProject={handleUpdateProject}
+                      onReorderProjects={handleReorderProjects}
+                      onDeleteProject={handleDeleteProject}
+                    />
+                  }
+                />
+                <Route
+                  path="/skills/*"
+                  element={
+                    <SkillsManagement
+                      skills={skills}
+                      categories={skillCategories}
+                      projects={projects}
+                      pendingIds={skillMutations.pendingIds}
+                      categoryPendingIds={skillCategoryMutations.pendingIds}
+                      onAddSkill={handleAddSkill}
+                      onUpdateSkill={handleUpdateSkill}
+                      onReorderSkills={handleReorderSkills}
+                      onDeleteSkill={handleDeleteSkill}
+                      onCreateCategory={handleCreateSkillCategory}
+                      onRenameCategory={handleRenameSkillCategory}
+                      onReorderCategories={handleReorderSkillCategories}
+                    />
+                  }
+                />
+                <Route
+                  path="/messages/*"
+                  element={
+                    <MessagesManagement
+                      messages={messages}
+                      pagination={messagePagination}
+                      counts={messageCounts}
+                      query={messageQuery}
+                      onQueryChange={handleMessageQueryChange}
+                      isFetching={messagesQuery.isFetching}
+                      pendingIds={messageMutations.pendingIds}
+                      onUpdateMessages={handleUpdateMessages}
+                      onReplyToMessage={handleReplyToMessage}
+                      onMarkSpam={handleMarkSpam}
+                      onPurgeSpam={handlePurgeSpam}
+                      onDeleteMessages={handleDeleteMessages}
+                      labels={messageLabels}
+                      labelPendingIds={messageLabelMutations.pendingIds}
+                      onCreateLabel={handleCreateMessageLabel}
+                      onUpdateLabel={handleUpdateMessageLabel}
+                      onDeleteLabel={handleDeleteMessageLabel}
+                    />
+                  }
+                />
+                <Route
+                  path="/urls/*"
+                  element={
+                    <UrlManagement
+                      urls={urls}
+                      pendingIds={urlMutations.pendingIds}
+                      pagination={urlPagination}
+                      onPageChange={handleUrlPageChange}
+                      onAddUrl={handleAddUrl}
+                      onUpdateUrl={handleUpdateUrl}
+                      onDeleteUrl={handleDeleteUrl}
+                    />
+                  }
+                />
+                <Route path="*" element={<Navigate to="/" replace />} />
+              </Routes>
+            </DashboardLayout>
+          </ProtectedRoute>
+        }
+      />
+    </Routes>
   );
 }
 
@@ -0,0 +1,81 @@
+import { useId, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface ConfirmDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: React.ReactNode;
+  confirmLabel?: string;
+  // When set, the user has to type this text (e.g. the project name) before confirming
+  confirmText?: string;
+  onConfirm: () => void;
+}
+
+export function ConfirmDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  confirmLabel = 'Delete',
+  confirmText,
+  onConfirm,
+}: ConfirmDialogProps) {
+  const inputId = useId();
+  const [typedText, setTypedText] = useState('');
+  const canConfirm = !confirmText || typedText.trim() === confirmText.trim();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setTypedText('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canConfirm) return;
+    onConfirm();
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[440px] text-white" role="alertdialog">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+
+          {confirmText && (
+            <div className="space-y-2 py-4">
+              <Label htmlFor={inputId}>
+                Type <span className="font-semibold">{confirmText}</span> to confirm
+              </Label>
+              <Input
+                id={inputId}
+                value={typedText}
+                onChange={(e) => setTypedText(e.target.value)}
+                autoComplete="off"
+                autoFocus
+              />
+            </div>
+          )}
+
+          <DialogFooter className="mt-4">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={!canConfirm}>
+              {confirmLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { NavLink } from 'react-router-dom';
 import { 
   FolderOpen, 
   Wrench, 
@@ -12,20 +13,20 @@ import {
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
-  activeSection: string;
-  onSectionChange: (section: string) => void;
   onLogout: () => void;
+  // Shown as a badge next to Messages
+  unreadMessages: number;
 }
 
-export function DashboardLayout({ children, activeSection, onSectionChange, onLogout }: DashboardLayoutProps) {
+export function DashboardLayout({ children, onLogout, unreadMessages }: DashboardLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
   const navigation = [
-    { id: 'overview', name: 'Dashboard', icon: Home },
-    { id: 'projects', name: 'Projects', icon: FolderOpen },
-    { id: 'skills', name: 'Skills', icon: Wrench },
-    { id: 'messages', name: 'Messages', icon: MessageSquare },
-    { id: 'urls', name: 'URL Shortener', icon: Link },
+    { to: '/', name: 'Dashboard', icon: Home },
+    { to: '/projects', name: 'Projects', icon: FolderOpen },
+    { to: '/skills', name: 'Skills', icon: Wrench },
+    { to: '/messages', name: 'Messages', icon: MessageSquare, badge: unreadMessages },
+    { to: '/urls', name: 'URL Shortener', icon: Link },
   ];
 
   return (
@@ -56,21 +57,28 @@ export function DashboardLayout({ children, activeSection, onSectionChange, onLo
             {navigation.map((item) => {
               const Icon = item.icon;
               return (
-                <button
-                  key={item.id}
-                  onClick={() => {
-                    onSectionChange(item.id);
-                    setSidebarOpen(false);
-                  }}
-                  className={`w-full flex items-center px-3 py-2 text-sm font-medium rounded-md transition-colors ${
-                    activeSection === item.id
+                <NavLink
+                  key={item.to}
+                  to={item.to}
+                  end={item.to === '/'}
+                  onClick={() => setSidebarOpen(false)}
+                  className={({ isActive }) => `w-full flex items-center px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+                    isActive
                       ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200'
                       : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-700 dark:hover:text-white'
                   }`}
                 >
                   <Icon className="mr-3 h-5 w-5" />
                   {item.name}
-                </button>
+                  {item.badge ? (
+                    <span
+                      className="ml-auto rounded-full bg-blue-600 px-2 py-0.5 text-xs font-semibold text-white"
+                      aria-label={`${item.badge} unread`}
+                    >
+                      {item.badge > 99 ? '99+' : item.badge}
+                    </span>
+                  ) : null}
+                </NavLink>
               );
             })}
           </div>
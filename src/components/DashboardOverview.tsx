@@ -1,5 +1,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { LinkHealthCard } from '@/components/LinkHealthCard';
 import { FolderOpen, Wrench, MessageSquare, Link } from 'lucide-react';
+import type { LinkHealthStatus } from '@/hooks/useLinkHealth';
 
 interface OverviewStats {
   projects: number;
@@ -10,9 +12,10 @@ interface OverviewStats {
 
 interface DashboardOverviewProps {
   stats: OverviewStats;
+  linkHealth: LinkHealthStatus;
 }
 
-export function DashboardOverview({ stats }: DashboardOverviewProps) {
+export function DashboardOverview({ stats, linkHealth }: DashboardOverviewProps) {
   const cards = [
     {
       title: 'Projects',
@@ -78,6 +81,8 @@ export function DashboardOverview({ stats }: DashboardOverviewProps) {
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <LinkHealthCard linkHealth={linkHealth} />
+
         <Card>
           <CardHeader>
             <CardTitle>Recent Activity</CardTitle>
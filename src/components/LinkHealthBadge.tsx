@@ -0,0 +1,30 @@
+import { Badge } from '@/components/ui/badge';
+import type { LinkHealth } from '@/lib/types';
+
+interface LinkHealthBadgeProps {
+  // Missing while the link hasn't been checked yet
+  health?: LinkHealth;
+}
+
+// Flags links that redirect or fail; healthy and unchecked links show nothing
+export function LinkHealthBadge({ health }: LinkHealthBadgeProps) {
+  if (!health || health.state === 'ok') return null;
+
+  if (health.state === 'redirect') {
+    return (
+      <Badge
+        variant="outline"
+        className="border-amber-400 text-amber-600 dark:text-amber-400"
+        title={health.redirectUrl ? `Redirects to ${health.redirectUrl}` : `Redirects (HTTP ${health.statusCode})`}
+      >
+        Redirects
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="destructive" title={health.error || (health.statusCode ? `HTTP ${health.statusCode}` : 'Unreachable')}>
+      Broken
+    </Badge>
+  );
+}
@@ -0,0 +1,109 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { LinkHealthBadge } from '@/components/LinkHealthBadge';
+import { RefreshCw } from 'lucide-react';
+import { getErrorMessage } from '@/lib/api';
+import { notify } from '@/lib/notify';
+import { cn } from '@/lib/utils';
+import type { LinkHealthStatus } from '@/hooks/useLinkHealth';
+import type { LinkHealthState } from '@/lib/types';
+
+// Problem links listed on the card; the rest are summarised in the counts
+const MAX_LISTED_LINKS = 6;
+
+const STATE_SUMMARY: { state: LinkHealthState; label: string; color: string }[] = [
+  { state: 'ok', label: 'Healthy', color: 'text-green-600 dark:text-green-400' },
+  { state: 'redirect', label: 'Redirecting', color: 'text-amber-600 dark:text-amber-400' },
+  { state: 'broken', label: 'Broken', color: 'text-red-600 dark:text-red-400' },
+];
+
+interface LinkHealthCardProps {
+  linkHealth: LinkHealthStatus;
+}
+
+export function LinkHealthCard({ linkHealth }: LinkHealthCardProps) {
+  const { report, error, isChecking, check, includeShortUrls, setIncludeShortUrls } = linkHealth;
+  const results = Object.values(report?.byUrl ?? {});
+  const problems = results
+    .filter((result) => result.state !== 'ok')
+    .sort((a, b) => Number(b.state === 'broken') - Number(a.state === 'broken'));
+
+  const handleCheck = () => {
+    check().catch((err) => notify.error(err, 'Link check failed'));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Link Health</CardTitle>
+          <CardDescription>
+            {isChecking
+              ? 'Checking links...'
+              : report
+                ? `Last checked ${new Date(report.checkedAt).toLocaleString()}`
+                : 'Project links haven’t been checked yet'}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleCheck} disabled={isChecking}>
+          <RefreshCw className={cn('h-4 w-4', isChecking && 'animate-spin')} />
+          Check now
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error !== undefined && !isChecking && (
+          <p className="text-sm text-destructive">{getErrorMessage(error, 'Link check failed')}</p>
+        )}
+
+        <div className="grid grid-cols-3 gap-3">
+          {STATE_SUMMARY.map(({ state, label, color }) => (
+            <div key={state}>
+              <div className={cn('text-2xl font-bold', color)}>
+                {results.filter((result) => result.state === state).length}
+              </div>
+              <p className="text-xs text-gray-600 dark:text-gray-400">{label}</p>
+            </div>
+          ))}
+        </div>
+
+        {problems.length > 0 && (
+          <ul className="space-y-2">
+            {problems.slice(0, MAX_LISTED_LINKS).map((result) => (
+              <li key={result.url} className="flex items-start justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <a
+                    href={result.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block truncate text-blue-600 hover:underline dark:text-blue-400"
+                  >
+                    {result.url}
+                  </a>
+                  <p className="truncate text-xs text-gray-500 dark:text-gray-400">
+                    {report?.usedBy[result.url]?.join(', ')}
+                  </p>
+                </div>
+                <LinkHealthBadge health={result} />
+              </li>
+            ))}
+            {problems.length > MAX_LISTED_LINKS && (
+              <li className="text-xs text-gray-500 dark:text-gray-400">
+                and {problems.length - MAX_LISTED_LINKS} more
+              </li>
+            )}
+          </ul>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-primary"
+            checked={includeShortUrls}
+            onChange={(e) => setIncludeShortUrls(e.target.checked)}
+          />
+          Also check short URL destinations
+        </label>
+      </CardContent>
+    </Card>
+  );
+}
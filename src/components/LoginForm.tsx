@@ -7,9 +7,11 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 
 interface LoginFormProps {
   onLogin: (email: string, password: string) => Promise<void>;
+  // Shown above the form, e.g. when the previous session expired
+  notice?: string;
 }
 
-export function LoginForm({ onLogin }: LoginFormProps) {
+export function LoginForm({ onLogin, notice }: LoginFormProps) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
@@ -46,6 +48,11 @@ export function LoginForm({ onLogin }: LoginFormProps) {
         </CardHeader>
         <form onSubmit={handleSubmit}>
           <CardContent className="space-y-4">
+            {notice && !error && (
+              <Alert>
+                <AlertDescription>{notice}</AlertDescription>
+              </Alert>
+            )}
             {error && (
               <Alert variant="destructive">
                 <AlertDescription>{error}</AlertDescription>
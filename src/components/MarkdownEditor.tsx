@@ -0,0 +1,196 @@
+import { useDeferredValue, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Bold, Code, Heading2, Italic, Link, List, ListOrdered, Quote } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { countWords, renderMarkdown } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+interface Edit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+type Transform = (value: string, start: number, end: number) => Edit;
+
+// Surrounds the selection (or a placeholder, left selected) with Markdown syntax
+const wrap = (before: string, after: string, placeholder: string): Transform => (value, start, end) => {
+  const selected = value.slice(start, end) || placeholder;
+  return {
+    value: value.slice(0, start) + before + selected + after + value.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + selected.length,
+  };
+};
+
+// Prefixes every line touched by the selection, e.g. to turn them into list items
+const prefixLines = (prefix: (index: number) => string): Transform => (value, start, end) => {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = value.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+  const block = value
+    .slice(lineStart, lineEnd)
+    .split('\n')
+    .map((line, index) => prefix(index) + line)
+    .join('\n');
+  return {
+    value: value.slice(0, lineStart) + block + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + block.length,
+  };
+};
+
+const TOOLBAR_ACTIONS = [
+  { label: 'Bold', shortcut: 'b', icon: Bold, apply: wrap('**', '**', 'bold text') },
+  { label: 'Italic', shortcut: 'i', icon: Italic, apply: wrap('_', '_', 'italic text') },
+  { label: 'Heading', icon: Heading2, apply: prefixLines(() => '## ') },
+  { label: 'Link', shortcut: 'k', icon: Link, apply: wrap('[', '](https://)', 'link text') },
+  { label: 'Bulleted list', icon: List, apply: prefixLines(() => '- ') },
+  { label: 'Numbered list', icon: ListOrdered, apply: prefixLines((index) => `${index + 1}. `) },
+  { label: 'Quote', icon: Quote, apply: prefixLines(() => '> ') },
+  { label: 'Code', icon: Code, apply: wrap('`', '`', 'code') },
+];
+
+type ViewMode = 'write' | 'split' | 'preview';
+
+const VIEW_MODES: { mode: ViewMode; label: string }[] = [
+  { mode: 'write', label: 'Write' },
+  { mode: 'split', label: 'Split' },
+  { mode: 'preview', label: 'Preview' },
+];
+
+interface MarkdownEditorProps extends Omit<React.ComponentProps<'textarea'>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+  // Shown in the character count; the form schema enforces it
+  characterLimit?: number;
+}
+
+/**
+ * Markdown textarea with a formatting toolbar, keyboard shortcuts (Ctrl/Cmd + B, I, K)
+ * and a sanitized live preview. Remaining props (id, aria-*, ref) go to the textarea,
+ * so it can sit inside a FormControl like a plain input.
+ */
+export function MarkdownEditor({ value, onChange, characterLimit, ref, className, ...textareaProps }: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const pendingSelection = useRef<Edit | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('split');
+
+  // Rendering can lag behind typing on long write-ups
+  const deferredValue = useDeferredValue(value);
+  const previewHtml = useMemo(() => renderMarkdown(deferredValue), [deferredValue]);
+  const wordCount = useMemo(() => countWords(value), [value]);
+
+  // Restore the selection once a toolbar edit has been rendered
+  useLayoutEffect(() => {
+    const selection = pendingSelection.current;
+    if (!selection || !textareaRef.current) return;
+    pendingSelection.current = null;
+    textareaRef.current.focus();
+    textareaRef.current.setSelectionRange(selection.selectionStart, selection.selectionEnd);
+  }, [value]);
+
+  const setTextarea = (node: HTMLTextAreaElement | null) => {
+    textareaRef.current = node;
+    if (typeof ref === 'function') {
+      ref(node);
+    } else if (ref) {
+      ref.current = node;
+    }
+  };
+
+  const applyTransform = (transform: Transform) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const edit = transform(value, textarea.selectionStart, textarea.selectionEnd);
+    pendingSelection.current = edit;
+    onChange(edit.value);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const action = TOOLBAR_ACTIONS.find((candidate) => candidate.shortcut === e.key.toLowerCase());
+    if (!action) return;
+    e.preventDefault();
+    applyTransform(action.apply);
+  };
+
+  const overLimit = characterLimit !== undefined && value.length > characterLimit;
+
+  return (
+    <div className={cn('rounded-md border border-input', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-input px-2 py-1">
+        <div className="flex flex-wrap items-center gap-0.5" role="toolbar" aria-label="Formatting">
+          {TOOLBAR_ACTIONS.map(({ label, shortcut, icon: Icon, apply }) => (
+            <Button
+              key={label}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="size-8"
+              title={shortcut ? `${label} (Ctrl+${shortcut.toUpperCase()})` : label}
+              aria-label={label}
+              disabled={viewMode === 'preview'}
+              onClick={() => applyTransform(apply)}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-0.5" role="group" aria-label="Editor view">
+          {VIEW_MODES.map(({ mode, label }) => (
+            <Button
+              key={mode}
+              type="button"
+              variant={viewMode === mode ? 'secondary' : 'ghost'}
+              size="sm"
+              aria-pressed={viewMode === mode}
+              onClick={() => setViewMode(mode)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className={cn('grid', viewMode === 'split' && 'md:grid-cols-2')}>
+        <textarea
+          ref={setTextarea}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className={cn(
+            'min-h-[200px] w-full resize-y bg-transparent px-3 py-2 font-mono text-sm placeholder:text-muted-foreground focus-visible:outline-none',
+            viewMode === 'preview' && 'hidden',
+          )}
+          {...textareaProps}
+        />
+        {viewMode !== 'write' && (
+          <div
+            className={cn(
+              'min-h-[200px] max-h-[400px] overflow-y-auto px-3 py-2',
+              viewMode === 'split' && 'border-t border-input md:border-t-0 md:border-l',
+            )}
+            aria-label="Preview"
+          >
+            {value.trim() ? (
+              <div className="markdown-body" dangerouslySetInnerHTML={{ __html: previewHtml }} />
+            ) : (
+              <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-3 border-t border-input px-3 py-1 text-xs text-muted-foreground" aria-live="polite">
+        <span className={cn(overLimit && 'text-destructive')}>
+          {value.length.toLocaleString()}
+          {characterLimit !== undefined && ` / ${characterLimit.toLocaleString()}`} characters
+        </span>
+        <span>
+          {wordCount.toLocaleString()} word{wordCount !== 1 ? 's' : ''}
+        </span>
+      </div>
+    </div>
+  );
+}
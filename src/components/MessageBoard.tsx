@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { MessageLabelBadge } from '@/components/MessageLabelBadge';
+import { PIPELINE_STATUS_LABELS, formatMessageDate } from '@/lib/messages';
+import { cn } from '@/lib/utils';
+import type { ContactMessage, MessageLabel, PipelineStatus } from '@/lib/types';
+
+interface MessageBoardProps {
+  messages: ContactMessage[];
+  labels: MessageLabel[];
+  // Messages with a mutation waiting on the server
+  pendingIds: ReadonlySet<string>;
+  onOpenMessage: (message: ContactMessage) => void;
+  onChangePipelineStatus: (message: ContactMessage, status: PipelineStatus) => void;
+}
+
+const PIPELINE_STATUSES = Object.keys(PIPELINE_STATUS_LABELS) as PipelineStatus[];
+
+const SELECT_CLASS_NAME =
+  'h-7 w-full rounded-md border border-input bg-transparent px-2 text-xs shadow-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+/**
+ * Kanban view of the messages on screen, one column per pipeline status. Cards
+ * are dragged between columns, or moved with the select on each card.
+ */
+export function MessageBoard({ messages, labels, pendingIds, onOpenMessage, onChangePipelineStatus }: MessageBoardProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overStatus, setOverStatus] = useState<PipelineStatus | null>(null);
+
+  const labelsById = new Map(labels.map((label) => [label._id, label]));
+
+  const handleDrop = (e: React.DragEvent, status: PipelineStatus) => {
+    e.preventDefault();
+    const message = messages.find((candidate) => candidate._id === draggingId);
+    setDraggingId(null);
+    setOverStatus(null);
+    if (message && message.pipelineStatus !== status) onChangePipelineStatus(message, status);
+  };
+
+  return (
+    <div className="grid gap-3 overflow-x-auto pb-2 md:grid-cols-5">
+      {PIPELINE_STATUSES.map((status) => {
+        const column = messages.filter((message) => message.pipelineStatus === status);
+        return (
+          <section
+            key={status}
+            aria-label={PIPELINE_STATUS_LABELS[status]}
+            onDragOver={(e) => {
+              if (!draggingId) return;
+              e.preventDefault();
+              setOverStatus(status);
+            }}
+            onDragLeave={() => setOverStatus((current) => (current === status ? null : current))}
+            onDrop={(e) => handleDrop(e, status)}
+            className={cn(
+              'min-w-[180px] rounded-md bg-gray-50 p-2 dark:bg-gray-800',
+              overStatus === status && 'ring-2 ring-primary',
+            )}
+          >
+            <h3 className="mb-2 flex items-center justify-between px-1 text-sm font-medium text-gray-900 dark:text-white">
+              {PIPELINE_STATUS_LABELS[status]}
+              <span className="text-xs font-normal text-gray-500 dark:text-gray-400">{column.length}</span>
+            </h3>
+            <ul className="space-y-2">
+              {column.map((message) => {
+                const isPending = pendingIds.has(message._id);
+                return (
+                  <li
+                    key={message._id}
+                    draggable={!isPending}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      // Firefox won't start a drag without data
+                      e.dataTransfer.setData('text/plain', message._id);
+                      setDraggingId(message._id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setOverStatus(null);
+                    }}
+                    aria-busy={isPending}
+                    className={cn(
+                      'space-y-2 rounded-md border border-input bg-white p-2 text-sm shadow-xs dark:bg-gray-900',
+                      (isPending || draggingId === message._id) && 'opacity-50',
+                    )}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => onOpenMessage(message)}
+                      className={cn('block w-full text-left', !message.isRead && 'font-semibold')}
+                    >
+                      <span className="block truncate">{message.name}</span>
+                      <span className="block truncate text-xs font-normal text-gray-500 dark:text-gray-400">
+                        {message.subject || '(no subject)'}
+                      </span>
+                      <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                        {formatMessageDate(message.createdAt)}
+                      </span>
+                    </button>
+                    {message.labelIds.some((id) => labelsById.has(id)) && (
+                      <div className="flex flex-wrap gap-1">
+                        {message.labelIds.map((id) => {
+                          const label = labelsById.get(id);
+                          return label && <MessageLabelBadge key={id} label={label} />;
+                        })}
+                      </div>
+                    )}
+                    <select
+                      value={message.pipelineStatus}
+                      onChange={(e) => onChangePipelineStatus(message, e.target.value as PipelineStatus)}
+                      disabled={isPending}
+                      aria-label={`Pipeline status for ${message.name}`}
+                      className={SELECT_CLASS_NAME}
+                    >
+                      {PIPELINE_STATUSES.map((option) => (
+                        <option key={option} value={option}>
+                          {PIPELINE_STATUS_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
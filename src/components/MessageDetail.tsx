@@ -0,0 +1,167 @@
+import { Link, useLocation } from 'react-router-dom';
+import { Archive, ArchiveRestore, CornerUpLeft, MailOpen, Phone, ShieldAlert, ShieldCheck, Trash2 } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ReplyComposer } from '@/components/ReplyComposer';
+import { MessageLabelBadge } from '@/components/MessageLabelBadge';
+import { PIPELINE_STATUS_LABELS, formatMessageDate } from '@/lib/messages';
+import { cn } from '@/lib/utils';
+import type { ContactMessage, MessageLabel, MessageReplyInput, PipelineStatus } from '@/lib/types';
+
+interface MessageDetailProps {
+  message: ContactMessage;
+  // A change to this message is waiting on the server
+  pending: boolean;
+  onMarkUnread: () => void;
+  onToggleArchived: () => void;
+  // Why the message looks like spam, when the spam check flagged it
+  spamReasons?: string[];
+  onToggleSpam: () => void;
+  // Every label; the ones on this message are shown as applied
+  labels: MessageLabel[];
+  onToggleLabel: (labelId: string) => void;
+  onChangePipelineStatus: (status: PipelineStatus) => void;
+  onDelete: () => void;
+  onReply: (reply: MessageReplyInput) => Promise<void>;
+}
+
+const SELECT_CLASS_NAME =
+  'h-8 rounded-md border border-input bg-transparent px-2 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+// Full contact message and its reply thread, rendered inside the inbox's message dialog
+export function MessageDetail({
+  message,
+  pending,
+  onMarkUnread,
+  onToggleArchived,
+  spamReasons,
+  onToggleSpam,
+  labels,
+  onToggleLabel,
+  onChangePipelineStatus,
+  onDelete,
+  onReply,
+}: MessageDetailProps) {
+  const { search } = useLocation();
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="break-words">{message.subject || '(no subject)'}</DialogTitle>
+        <DialogDescription asChild>
+          <div className="space-y-1 text-sm">
+            <p>
+              <span className="font-medium text-gray-900 dark:text-white">{message.name}</span>{' '}
+              <a href={`mailto:${message.email}`} className="text-blue-600 hover:underline dark:text-blue-400">
+                &lt;{message.email}&gt;
+              </a>
+            </p>
+            <p className="flex flex-wrap gap-x-4 gap-y-1">
+              <span>{formatMessageDate(message.createdAt)}</span>
+              {message.phoneNo && (
+                <a href={`tel:${message.phoneNo}`} className="inline-flex items-center gap-1 text-blue-600 hover:underline dark:text-blue-400">
+                  <Phone className="h-3.5 w-3.5" />
+                  {message.phoneNo}
+                </a>
+              )}
+              {message.isArchived && <span>Archived</span>}
+              {message.isSpam && <span>In Spam</span>}
+            </p>
+          </div>
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={message.pipelineStatus}
+          onChange={(e) => onChangePipelineStatus(e.target.value as PipelineStatus)}
+          disabled={pending}
+          aria-label="Pipeline status"
+          className={SELECT_CLASS_NAME}
+        >
+          {(Object.keys(PIPELINE_STATUS_LABELS) as PipelineStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {PIPELINE_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+        {labels.length === 0 ? (
+          <Link to={{ pathname: '/messages/labels', search }} className="text-blue-600 hover:underline dark:text-blue-400">
+            Create labels
+          </Link>
+        ) : (
+          <div className="flex flex-wrap gap-1" role="group" aria-label="Labels">
+            {labels.map((label) => {
+              const applied = message.labelIds.includes(label._id);
+              return (
+                <button
+                  key={label._id}
+                  type="button"
+                  aria-pressed={applied}
+                  disabled={pending}
+                  onClick={() => onToggleLabel(label._id)}
+                  title={applied ? `Remove ${label.name}` : `Add ${label.name}`}
+                >
+                  <MessageLabelBadge label={label} className={cn(!applied && 'opacity-40 hover:opacity-70')} />
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {spamReasons && (
+        <Alert>
+          <ShieldAlert className="h-4 w-4" />
+          <AlertDescription>
+            This looks like spam: {spamReasons.join('; ')}.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="max-h-[40vh] space-y-3 overflow-y-auto">
+        <div className="whitespace-pre-wrap break-words rounded-md border border-input p-4 text-sm">
+          {message.message || <span className="text-gray-500">This message is empty.</span>}
+        </div>
+        {message.replies.length > 0 && (
+          <ol className="space-y-3" aria-label="Replies">
+            {message.replies.map((reply) => (
+              <li key={reply._id} className="ml-6 rounded-md border border-input bg-gray-50 p-4 text-sm dark:bg-gray-800">
+                <p className="mb-2 flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+                  <CornerUpLeft className="h-3.5 w-3.5" />
+                  You replied {formatMessageDate(reply.sentAt)}
+                  {reply.subject && <span className="truncate">· {reply.subject}</span>}
+                </p>
+                <p className="whitespace-pre-wrap break-words">{reply.body}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <ReplyComposer key={message._id} message={message} onSend={onReply} />
+
+      <DialogFooter className="gap-2 sm:justify-between">
+        <Button type="button" variant="outline" onClick={onDelete} disabled={pending} className="text-red-600 dark:text-red-400">
+          <Trash2 className="h-4 w-4" />
+          Delete
+        </Button>
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" onClick={onToggleSpam} disabled={pending}>
+            {message.isSpam ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+            {message.isSpam ? 'Not spam' : 'Spam'}
+          </Button>
+          <Button type="button" variant="outline" onClick={onMarkUnread} disabled={pending}>
+            <MailOpen className="h-4 w-4" />
+            Mark as unread
+          </Button>
+          <Button type="button" variant="outline" onClick={onToggleArchived} disabled={pending}>
+            {message.isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+            {message.isArchived ? 'Move to inbox' : 'Archive'}
+          </Button>
+        </div>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,17 @@
+import { Badge } from '@/components/ui/badge';
+import { LABEL_COLORS } from '@/lib/messages';
+import { cn } from '@/lib/utils';
+import type { MessageLabel } from '@/lib/types';
+
+interface MessageLabelBadgeProps {
+  label: MessageLabel;
+  className?: string;
+}
+
+export function MessageLabelBadge({ label, className }: MessageLabelBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn(LABEL_COLORS[label.color].className, className)}>
+      {label.name}
+    </Badge>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { MessageLabelBadge } from '@/components/MessageLabelBadge';
+import { notify } from '@/lib/notify';
+import { LABEL_COLORS } from '@/lib/messages';
+import { cn } from '@/lib/utils';
+import type { LabelColor, MessageLabel, MessageLabelInput } from '@/lib/types';
+
+interface MessageLabelManagerProps {
+  labels: MessageLabel[];
+  // Labels with a mutation waiting on the server
+  pendingIds: ReadonlySet<string>;
+  onCreateLabel: (label: MessageLabelInput) => Promise<void>;
+  onUpdateLabel: (id: string, label: MessageLabelInput) => Promise<void>;
+  onDeleteLabel: (id: string) => Promise<void>;
+}
+
+const SELECT_CLASS_NAME =
+  'h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+const hasLabelNamed = (labels: MessageLabel[], name: string, exceptId?: string) =>
+  labels.some((label) => label._id !== exceptId && label.name.toLowerCase() === name.toLowerCase());
+
+function ColorSelect({ value, onChange, label }: { value: LabelColor; onChange: (color: LabelColor) => void; label: string }) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value as LabelColor)} aria-label={label} className={SELECT_CLASS_NAME}>
+      {(Object.keys(LABEL_COLORS) as LabelColor[]).map((color) => (
+        <option key={color} value={color}>
+          {LABEL_COLORS[color].name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// Creates, edits and deletes the labels messages can be tagged with
+export function MessageLabelManager({ labels, pendingIds, onCreateLabel, onUpdateLabel, onDeleteLabel }: MessageLabelManagerProps) {
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<LabelColor>('blue');
+  const [editing, setEditing] = useState<MessageLabel | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<MessageLabel | null>(null);
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    if (hasLabelNamed(labels, name)) {
+      notify.error(null, `There's already a label named "${name}"`);
+      return;
+    }
+    setNewName('');
+    try {
+      await onCreateLabel({ name, color: newColor });
+    } catch (err) {
+      notify.error(err, `Failed to create label "${name}"`);
+    }
+  };
+
+  const saveEdit = async (label: MessageLabel) => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    setEditing(null);
+    if (!name || (name === label.name && editing.color === label.color)) return;
+    if (hasLabelNamed(labels, name, label._id)) {
+      notify.error(null, `There's already a label named "${name}"`);
+      return;
+    }
+    try {
+      await onUpdateLabel(label._id, { name, color: editing.color });
+    } catch (err) {
+      notify.error(err, `Failed to update label "${label.name}"`);
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, label: MessageLabel) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      saveEdit(label);
+    } else if (e.key === 'Escape') {
+      // Keep the dialog open; only cancel the edit
+      e.preventDefault();
+      e.stopPropagation();
+      setEditing(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await onDeleteLabel(deleteTarget._id);
+      notify.success(`Deleted label "${deleteTarget.name}"`);
+    } catch (err) {
+      notify.error(err, `Failed to delete label "${deleteTarget.name}"`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {labels.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No labels yet.</p>
+      ) : (
+        <ul className="space-y-1">
+          {labels.map((label) => {
+            const isPending = pendingIds.has(label._id);
+            return (
+              <li
+                key={label._id}
+                aria-busy={isPending}
+                className={cn('flex items-center gap-2 rounded-md border border-input px-2 py-1.5', isPending && 'opacity-50')}
+              >
+                {editing?._id === label._id ? (
+                  <>
+                    <Input
+                      value={editing.name}
+                      onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                      onKeyDown={(e) => handleEditKeyDown(e, label)}
+                      aria-label={`New name for ${label.name}`}
+                      maxLength={30}
+                      className="h-8 flex-1"
+                      autoFocus
+                    />
+                    <ColorSelect
+                      value={editing.color}
+                      onChange={(color) => setEditing({ ...editing, color })}
+                      label={`Colour for ${label.name}`}
+                    />
+                    <Button type="button" variant="ghost" size="icon" className="size-8" aria-label="Save label" onClick={() => saveEdit(label)}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" className="size-8" aria-label="Cancel edit" onClick={() => setEditing(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1">
+                      <MessageLabelBadge label={label} />
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      aria-label={`Edit ${label.name}`}
+                      disabled={isPending}
+                      onClick={() => setEditing(label)}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="size-8 text-red-600 dark:text-red-400"
+                      aria-label={`Delete ${label.name}`}
+                      disabled={isPending}
+                      onClick={() => setDeleteTarget(label)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form className="flex gap-2" onSubmit={create}>
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New label, e.g. Freelance"
+          aria-label="New label name"
+          maxLength={30}
+        />
+        <ColorSelect value={newColor} onChange={setNewColor} label="New label colour" />
+        <Button type="submit" variant="outline" disabled={!newName.trim()}>
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </form>
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title="Delete label?"
+        description={
+          <>
+            <span className="font-semibold">{deleteTarget?.name}</span> will be removed from every message that has it.
+          </>
+        }
+        confirmLabel="Delete"
+        onConfirm={handleDelete}
+      />
+    </div>
+  );
+}
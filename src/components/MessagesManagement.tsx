@@ -1,31 +1,254 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation, useMatch, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { MessageSquare, Mail, Phone } from 'lucide-react';
-
-interface ContactMessage {
-  _id: string;
-  name: string;
-  email: string;
-  phoneNo?: string;
-  subject: string;
-  message: string;
-  createdAt?: string;
-  isRead?: boolean;
-}
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { MessageBoard } from '@/components/MessageBoard';
+import { MessageDetail } from '@/components/MessageDetail';
+import { MessageLabelBadge } from '@/components/MessageLabelBadge';
+import { MessageLabelManager } from '@/components/MessageLabelManager';
+import { MessagesToolbar } from '@/components/MessagesToolbar';
+import { Pagination } from '@/components/Pagination';
+import { notify } from '@/lib/notify';
+import { assessMessages, type SpamAssessment } from '@/lib/spam';
+import {
+  MESSAGE_VIEW_LABELS,
+  PIPELINE_STATUS_LABELS,
+  formatMessageDate,
+  isFilteredMessageQuery,
+  type MessageQuery,
+} from '@/lib/messages';
+import { cn } from '@/lib/utils';
+import { Archive, ArchiveRestore, Inbox, MessageSquare, Mail, MailOpen, ShieldAlert, ShieldCheck, Tags, Trash2 } from 'lucide-react';
+import type {
+  ContactMessage,
+  MessageCounts,
+  MessageLabel,
+  MessageLabelInput,
+  MessagePatch,
+  MessageReplyInput,
+  PaginationInfo,
+  PipelineStatus,
+} from '@/lib/types';
 
 interface MessagesManagementProps {
+  // The current page of messages matching `query`
   messages: ContactMessage[];
+  pagination: PaginationInfo;
+  counts: MessageCounts;
+  query: MessageQuery;
+  onQueryChange: (query: MessageQuery) => void;
+  // A new page or filter is loading; the previous results stay on screen meanwhile
+  isFetching: boolean;
+  // Messages with a mutation waiting on the server
+  pendingIds: ReadonlySet<string>;
+  onUpdateMessages: (ids: string[], patch: MessagePatch) => Promise<void>;
+  onReplyToMessage: (id: string, reply: MessageReplyInput) => Promise<void>;
+  // Moves messages into or out of Spam and reports them to the backend spam filter
+  onMarkSpam: (ids: string[], isSpam: boolean) => Promise<void>;
+  // Permanently deletes everything in Spam
+  onPurgeSpam: () => Promise<void>;
+  // Hides the messages and offers an undo window before the delete is sent
+  onDeleteMessages: (messages: ContactMessage[]) => void;
+  labels: MessageLabel[];
+  // Labels with a mutation waiting on the server
+  labelPendingIds: ReadonlySet<string>;
+  onCreateLabel: (label: MessageLabelInput) => Promise<void>;
+  onUpdateLabel: (id: string, label: MessageLabelInput) => Promise<void>;
+  onDeleteLabel: (id: string) => Promise<void>;
 }
 
-export function MessagesManagement({ messages }: MessagesManagementProps) {
+const PIPELINE_STATUSES = Object.keys(PIPELINE_STATUS_LABELS) as PipelineStatus[];
+
+const SELECT_CLASS_NAME =
+  'h-8 rounded-md border border-input bg-transparent px-2 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+export function MessagesManagement({
+  messages,
+  pagination,
+  counts,
+  query,
+  onQueryChange,
+  isFetching,
+  pendingIds,
+  onUpdateMessages,
+  onReplyToMessage,
+  onMarkSpam,
+  onPurgeSpam,
+  onDeleteMessages,
+  labels,
+  labelPendingIds,
+  onCreateLabel,
+  onUpdateLabel,
+  onDeleteLabel,
+}: MessagesManagementProps) {
+  const navigate = useNavigate();
+  const { search } = useLocation();
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(new Set());
+  const [deleteTargets, setDeleteTargets] = useState<ContactMessage[]>([]);
+  const [isPurgeOpen, setIsPurgeOpen] = useState(false);
+
+  // Messages already in Spam aren't scored again
+  const isSpamView = query.view === 'spam';
+  const spamAssessments = useMemo(() => (isSpamView ? new Map<string, SpamAssessment>() : assessMessages(messages)), [isSpamView, messages]);
+  const likelySpam = messages.filter((message) => spamAssessments.get(message._id)?.likelySpam);
+
+  // Selections only cover the page on screen, so paging or filtering never acts on hidden messages
+  const selectedMessages = messages.filter((message) => selectedIds.has(message._id));
+  const allSelected = messages.length > 0 && selectedMessages.length === messages.length;
+
+  const labelsById = new Map(labels.map((label) => [label._id, label]));
+
+  // Dialogs are driven by the route: /messages/labels and /messages/:id
+  const isManagingLabels = useMatch('/messages/labels') !== null;
+  const openMatch = useMatch('/messages/:id');
+  const openMessage = messages.find((message) => message._id === openMatch?.params.id) ?? null;
+  const openAssessment = openMessage ? spamAssessments.get(openMessage._id) : undefined;
+
+  const handleQueryChange = useCallback(
+    (nextQuery: MessageQuery) => {
+      setSelectedIds(new Set());
+      onQueryChange(nextQuery);
+    },
+    [onQueryChange],
+  );
+
+  const handleOpenMessage = (message: ContactMessage) => {
+    navigate({ pathname: `/messages/${message._id}`, search });
+  };
+
+  const handleCloseMessage = () => {
+    navigate({ pathname: '/messages', search });
+  };
+
+  const updateMessages = async (ids: string[], patch: MessagePatch, errorMessage: string) => {
+    try {
+      await onUpdateMessages(ids, patch);
+    } catch (err) {
+      notify.error(err, errorMessage);
+    }
+  };
+
+  // Opening an unread message marks it as read, once per visit, so "Mark as unread" sticks
+  const autoReadIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!openMessage) {
+      autoReadIdRef.current = null;
+      return;
+    }
+    if (autoReadIdRef.current === openMessage._id) return;
+    autoReadIdRef.current = openMessage._id;
+    if (!openMessage.isRead) {
+      onUpdateMessages([openMessage._id], { isRead: true }).catch((err) => {
+        notify.error(err, 'Failed to mark the message as read');
+      });
+    }
+  }, [openMessage, onUpdateMessages]);
+
+  const changePipelineStatus = (message: ContactMessage, pipelineStatus: PipelineStatus) => {
+    updateMessages(
+      [message._id],
+      { pipelineStatus },
+      `Failed to move the message from ${message.name} to ${PIPELINE_STATUS_LABELS[pipelineStatus]}`,
+    );
+  };
+
+  const toggleLabel = (message: ContactMessage, labelId: string) => {
+    const labelIds = message.labelIds.includes(labelId)
+      ? message.labelIds.filter((id) => id !== labelId)
+      : [...message.labelIds, labelId];
+    updateMessages([message._id], { labelIds }, 'Failed to update labels');
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllSelected = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(messages.map((message) => message._id)));
+  };
+
+  const handleBulkUpdate = async (patch: MessagePatch) => {
+    const ids = selectedMessages.map((message) => message._id);
+    setSelectedIds(new Set());
+    await updateMessages(ids, patch, `Failed to update ${ids.length} message${ids.length !== 1 ? 's' : ''}`);
+  };
+
+  const markSpam = async (ids: string[], isSpam: boolean) => {
+    setSelectedIds(new Set());
+    const label = `${ids.length} message${ids.length !== 1 ? 's' : ''}`;
+    try {
+      await onMarkSpam(ids, isSpam);
+      notify.success(isSpam ? `Moved ${label} to Spam` : `Moved ${label} back to the inbox`);
+    } catch (err) {
+      notify.error(err, isSpam ? `Failed to move ${label} to Spam` : `Failed to restore ${label}`);
+    }
+  };
+
+  const handlePurgeSpam = async () => {
+    try {
+      await onPurgeSpam();
+      notify.success('Spam emptied');
+    } catch (err) {
+      notify.error(err, 'Failed to empty spam');
+    }
+  };
+
+  const handleConfirmDelete = () => {
+    onDeleteMessages(deleteTargets);
+    if (openMessage && deleteTargets.some((message) => message._id === openMessage._id)) {
+      handleCloseMessage();
+    }
+    setSelectedIds(new Set());
+  };
+
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Messages</h1>
-        <p className="text-gray-600 dark:text-gray-400 mt-2">
-          Contact messages from your portfolio website
-        </p>
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Messages</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Contact messages from your portfolio website
+          </p>
+        </div>
+
+        <Dialog
+          open={isManagingLabels}
+          onOpenChange={(open) => navigate({ pathname: open ? '/messages/labels' : '/messages', search })}
+        >
+          <DialogTrigger asChild>
+            <Button variant="outline">
+              <Tags className="mr-2 h-4 w-4" />
+              Labels
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[480px] text-white">
+            <DialogHeader>
+              <DialogTitle>Message Labels</DialogTitle>
+              <DialogDescription>
+                Tag messages with these labels and filter the list by them.
+              </DialogDescription>
+            </DialogHeader>
+            <MessageLabelManager
+              labels={labels}
+              pendingIds={labelPendingIds}
+              onCreateLabel={onCreateLabel}
+              onUpdateLabel={onUpdateLabel}
+              onDeleteLabel={onDeleteLabel}
+            />
+          </DialogContent>
+        </Dialog>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -34,7 +257,7 @@ export function MessagesManagement({ messages }: MessagesManagementProps) {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {messages.length}
+                  {counts.inbox + counts.archived}
                 </p>
                 <p className="text-sm text-gray-600 dark:text-gray-400">
                   Total Messages
@@ -50,7 +273,7 @@ export function MessagesManagement({ messages }: MessagesManagementProps) {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {messages.filter(m => !m.isRead).length}
+                  {counts.unread}
                 </p>
                 <p className="text-sm text-gray-600 dark:text-gray-400">
                   Unread Messages
@@ -66,13 +289,13 @@ export function MessagesManagement({ messages }: MessagesManagementProps) {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {messages.filter(m => m.phoneNo).length}
+                  {counts.archived}
                 </p>
                 <p className="text-sm text-gray-600 dark:text-gray-400">
-                  With Phone Number
+                  Archived
                 </p>
               </div>
-              <Phone className="h-8 w-8 text-green-600 dark:text-green-400" />
+              <Inbox className="h-8 w-8 text-green-600 dark:text-green-400" />
             </div>
           </CardContent>
         </Card>
@@ -80,74 +303,284 @@ export function MessagesManagement({ messages }: MessagesManagementProps) {
 
       <Card>
         <CardHeader>
-          <CardTitle>All Messages</CardTitle>
+          <CardTitle>{MESSAGE_VIEW_LABELS[query.view]}</CardTitle>
           <CardDescription>
-            Contact messages received through your portfolio
+            Open a message to read it in full; unread messages are marked as read when opened
           </CardDescription>
         </CardHeader>
         <CardContent>
+          <MessagesToolbar query={query} onQueryChange={handleQueryChange} counts={counts} labels={labels} />
+
+          {isSpamView && counts.spam > 0 && (
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <span>Messages in Spam stay out of your inbox and unread count.</span>
+              <Button size="sm" variant="outline" onClick={() => setIsPurgeOpen(true)} className="text-red-600 dark:text-red-400">
+                <Trash2 className="h-4 w-4" />
+                Empty spam
+              </Button>
+            </div>
+          )}
+
+          {likelySpam.length > 0 && (
+            <div className="mb-4 flex flex-wrap items-center gap-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900 dark:border-amber-700 dark:bg-amber-950 dark:text-amber-200">
+              <ShieldAlert className="h-4 w-4" />
+              <span className="mr-auto">
+                {likelySpam.length} message{likelySpam.length !== 1 ? 's' : ''} on this page look{likelySpam.length === 1 ? 's' : ''} like spam.
+              </span>
+              <Button size="sm" variant="outline" onClick={() => setSelectedIds(new Set(likelySpam.map((message) => message._id)))}>
+                Select them
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => markSpam(likelySpam.map((message) => message._id), true)}>
+                Move to Spam
+              </Button>
+            </div>
+          )}
+
+          {selectedMessages.length > 0 && isSpamView && (
+            <div className="mb-4 flex flex-wrap items-center gap-2 rounded-md bg-gray-50 px-3 py-2 dark:bg-gray-800" role="toolbar" aria-label="Bulk actions">
+              <span className="mr-auto text-sm text-gray-600 dark:text-gray-300">
+                {selectedMessages.length} selected
+              </span>
+              <Button size="sm" variant="outline" onClick={() => markSpam(selectedMessages.map((message) => message._id), false)}>
+                <ShieldCheck className="h-4 w-4" />
+                Not spam
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setDeleteTargets(selectedMessages)} className="text-red-600 dark:text-red-400">
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            </div>
+          )}
+
+          {selectedMessages.length > 0 && !isSpamView && (
+            <div className="mb-4 flex flex-wrap items-center gap-2 rounded-md bg-gray-50 px-3 py-2 dark:bg-gray-800" role="toolbar" aria-label="Bulk actions">
+              <span className="mr-auto text-sm text-gray-600 dark:text-gray-300">
+                {selectedMessages.length} selected
+              </span>
+              <Button size="sm" variant="outline" onClick={() => handleBulkUpdate({ isRead: true })}>
+                <MailOpen className="h-4 w-4" />
+                Mark read
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleBulkUpdate({ isRead: false })}>
+                <Mail className="h-4 w-4" />
+                Mark unread
+              </Button>
+              {query.view === 'archived' ? (
+                <Button size="sm" variant="outline" onClick={() => handleBulkUpdate({ isArchived: false })}>
+                  <ArchiveRestore className="h-4 w-4" />
+                  Move to inbox
+                </Button>
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => handleBulkUpdate({ isArchived: true })}>
+                  <Archive className="h-4 w-4" />
+                  Archive
+                </Button>
+              )}
+              <select
+                value=""
+                onChange={(e) => handleBulkUpdate({ pipelineStatus: e.target.value as PipelineStatus })}
+                aria-label="Move selected messages to a pipeline status"
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="" disabled>
+                  Move to…
+                </option>
+                {PIPELINE_STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {PIPELINE_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+              <Button size="sm" variant="outline" onClick={() => markSpam(selectedMessages.map((message) => message._id), true)}>
+                <ShieldAlert className="h-4 w-4" />
+                Mark as spam
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setDeleteTargets(selectedMessages)} className="text-red-600 dark:text-red-400">
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            </div>
+          )}
+
           {messages.length === 0 ? (
             <div className="text-center py-8">
               <MessageSquare className="mx-auto h-12 w-12 text-gray-400" />
               <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-white">No messages</h3>
               <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-                You haven't received any contact messages yet.
+                {isFilteredMessageQuery(query)
+                  ? 'No messages match these filters.'
+                  : counts.inbox + counts.archived + counts.spam === 0
+                    ? "You haven't received any contact messages yet."
+                    : `Nothing in ${MESSAGE_VIEW_LABELS[query.view].toLowerCase()} right now.`}
               </p>
             </div>
+          ) : query.layout === 'board' ? (
+            <div aria-busy={isFetching} className={cn(isFetching && 'opacity-60')}>
+              <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+                Drag a message to another column, or pick its status on the card. The board shows this page only.
+              </p>
+              <MessageBoard
+                messages={messages}
+                labels={labels}
+                pendingIds={pendingIds}
+                onOpenMessage={handleOpenMessage}
+                onChangePipelineStatus={changePipelineStatus}
+              />
+            </div>
           ) : (
-            <Table>
+            <Table aria-busy={isFetching} className={cn(isFetching && 'opacity-60')}>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Name</TableHead>
-                  <TableHead>Email</TableHead>
-                  <TableHead>Phone</TableHead>
-                  <TableHead>Subject</TableHead>
+                  <TableHead className="w-10">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={allSelected}
+                      onChange={toggleAllSelected}
+                      aria-label="Select all messages"
+                    />
+                  </TableHead>
+                  <TableHead>From</TableHead>
                   <TableHead>Message</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Stage</TableHead>
                   <TableHead>Status</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {messages.map((message) => (
-                  <TableRow key={message._id}>
-                    <TableCell className="font-medium">{message.name}</TableCell>
+                  <TableRow
+                    key={message._id}
+                    onClick={() => handleOpenMessage(message)}
+                    aria-busy={pendingIds.has(message._id)}
+                    className={cn(
+                      'cursor-pointer',
+                      !message.isRead && 'font-semibold',
+                      pendingIds.has(message._id) && 'opacity-50',
+                    )}
+                  >
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        checked={selectedIds.has(message._id)}
+                        onChange={() => toggleSelected(message._id)}
+                        aria-label={`Select message from ${message.name}`}
+                      />
+                    </TableCell>
                     <TableCell>
-                      <a 
-                        href={`mailto:${message.email}`}
-                        className="text-blue-600 hover:text-blue-800 hover:underline"
-                      >
-                        {message.email}
-                      </a>
+                      <div className="max-w-[200px]">
+                        <p className="truncate">{message.name}</p>
+                        <p className="truncate text-xs font-normal text-gray-500 dark:text-gray-400">{message.email}</p>
+                      </div>
                     </TableCell>
                     <TableCell>
-                      {message.phoneNo ? (
-                        <a 
-                          href={`tel:${message.phoneNo}`}
-                          className="text-blue-600 hover:text-blue-800 hover:underline"
-                        >
-                          {message.phoneNo}
-                        </a>
-                      ) : (
-                        <span className="text-gray-400">—</span>
-                      )}
+                      <div className="max-w-[400px]">
+                        <p className="truncate">{message.subject || '(no subject)'}</p>
+                        <p className="truncate text-xs font-normal text-gray-500 dark:text-gray-400">{message.message}</p>
+                        {message.labelIds.some((id) => labelsById.has(id)) && (
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {message.labelIds.map((id) => {
+                              const label = labelsById.get(id);
+                              return label && <MessageLabelBadge key={id} label={label} />;
+                            })}
+                          </div>
+                        )}
+                      </div>
                     </TableCell>
-                    <TableCell className="max-w-[200px] truncate">
-                      {message.subject}
+                    <TableCell className="whitespace-nowrap text-sm font-normal text-gray-500 dark:text-gray-400">
+                      {formatMessageDate(message.createdAt)}
                     </TableCell>
-                    <TableCell className="max-w-[300px] truncate">
-                      {message.message}
+                    <TableCell className="whitespace-nowrap text-sm font-normal">
+                      {PIPELINE_STATUS_LABELS[message.pipelineStatus]}
                     </TableCell>
                     <TableCell>
-                      <Badge variant={message.isRead ? "secondary" : "default"}>
-                        {message.isRead ? "Read" : "New"}
-                      </Badge>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant={message.isRead ? "secondary" : "default"}>
+                          {message.isRead ? "Read" : "New"}
+                        </Badge>
+                        {spamAssessments.get(message._id)?.likelySpam && (
+                          <Badge variant="outline" title={spamAssessments.get(message._id)?.reasons.join('\n')}>
+                            Likely spam
+                          </Badge>
+                        )}
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
             </Table>
           )}
+
+          <Pagination
+            pagination={pagination}
+            onPageChange={(page) => handleQueryChange({ ...query, page })}
+            disabled={isFetching}
+          />
         </CardContent>
       </Card>
+
+      <Dialog open={openMessage !== null} onOpenChange={(open) => !open && handleCloseMessage()}>
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto text-white">
+          {openMessage && (
+            <MessageDetail
+              message={openMessage}
+              pending={pendingIds.has(openMessage._id)}
+              onMarkUnread={() => {
+                handleCloseMessage();
+                updateMessages([openMessage._id], { isRead: false }, 'Failed to mark the message as unread');
+              }}
+              onToggleArchived={() => {
+                handleCloseMessage();
+                updateMessages(
+                  [openMessage._id],
+                  { isArchived: !openMessage.isArchived },
+                  openMessage.isArchived ? 'Failed to move the message to the inbox' : 'Failed to archive the message',
+                );
+              }}
+              spamReasons={openAssessment?.likelySpam ? openAssessment.reasons : undefined}
+              onToggleSpam={() => {
+                handleCloseMessage();
+                markSpam([openMessage._id], !openMessage.isSpam);
+              }}
+              labels={labels}
+              onToggleLabel={(labelId) => toggleLabel(openMessage, labelId)}
+              onChangePipelineStatus={(status) => changePipelineStatus(openMessage, status)}
+              onDelete={() => setDeleteTargets([openMessage])}
+              onReply={(reply) => onReplyToMessage(openMessage._id, reply)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={deleteTargets.length > 0}
+        onOpenChange={(open) => !open && setDeleteTargets([])}
+        title={deleteTargets.length === 1 ? 'Delete message?' : `Delete ${deleteTargets.length} messages?`}
+        description={
+          <>
+            {deleteTargets.length === 1 ? (
+              <>
+                The message from <span className="font-semibold">{deleteTargets[0].name}</span> will be deleted.
+              </>
+            ) : (
+              `${deleteTargets.length} messages will be deleted.`
+            )}{' '}
+            You can undo this for a few seconds afterwards.
+          </>
+        }
+        confirmLabel="Delete"
+        onConfirm={handleConfirmDelete}
+      />
+
+      <ConfirmDialog
+        open={isPurgeOpen}
+        onOpenChange={setIsPurgeOpen}
+        title="Empty spam?"
+        description={`All ${counts.spam} message${counts.spam !== 1 ? 's' : ''} in Spam will be permanently deleted. This can't be undone.`}
+        confirmLabel="Empty spam"
+        onConfirm={handlePurgeSpam}
+      />
     </div>
   );
 }
@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { Kanban, List, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DEFAULT_MESSAGE_QUERY,
+  MESSAGE_LAYOUT_LABELS,
+  MESSAGE_SORT_LABELS,
+  MESSAGE_STATUS_LABELS,
+  MESSAGE_VIEW_LABELS,
+  isFilteredMessageQuery,
+  type MessageLayout,
+  type MessageQuery,
+  type MessageSort,
+  type MessageStatus,
+  type MessageView,
+} from '@/lib/messages';
+import { cn } from '@/lib/utils';
+import type { MessageCounts, MessageLabel } from '@/lib/types';
+
+interface MessagesToolbarProps {
+  query: MessageQuery;
+  // Changes go back to the first page; the toolbar takes care of that
+  onQueryChange: (query: MessageQuery) => void;
+  counts: MessageCounts;
+  labels: MessageLabel[];
+}
+
+// Typing pauses this long before the search is sent
+const SEARCH_DEBOUNCE_MS = 300;
+
+const LAYOUT_ICONS: Record<MessageLayout, typeof List> = {
+  table: List,
+  board: Kanban,
+};
+
+const SELECT_CLASS_NAME =
+  'h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+export function MessagesToolbar({ query, onQueryChange, counts, labels }: MessagesToolbarProps) {
+  const [searchText, setSearchText] = useState(query.search);
+
+  // Pick up searches changed from outside, e.g. by "Clear filters" or the back button
+  const [syncedSearch, setSyncedSearch] = useState(query.search);
+  if (query.search !== syncedSearch) {
+    setSyncedSearch(query.search);
+    setSearchText(query.search);
+  }
+
+  useEffect(() => {
+    if (searchText === query.search) return;
+    const timer = setTimeout(() => onQueryChange({ ...query, search: searchText, page: 1 }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText, query, onQueryChange]);
+
+  const update = (changes: Partial<MessageQuery>) => {
+    onQueryChange({ ...query, ...changes, page: 1 });
+  };
+
+  // Also drops any search still being typed, so the debounce can't write it back
+  const clearFilters = () => {
+    setSearchText(DEFAULT_MESSAGE_QUERY.search);
+    onQueryChange({ ...DEFAULT_MESSAGE_QUERY, view: query.view, sort: query.sort, layout: query.layout });
+  };
+
+  return (
+    <div className="space-y-3 mb-4">
+      <div className="flex flex-wrap gap-1 border-b border-gray-200 dark:border-gray-700" role="tablist" aria-label="Message views">
+        {(Object.keys(MESSAGE_VIEW_LABELS) as MessageView[]).map((view) => (
+          <button
+            key={view}
+            type="button"
+            role="tab"
+            aria-selected={query.view === view}
+            onClick={() => update({ view })}
+            className={cn(
+              '-mb-px border-b-2 px-3 py-2 text-sm font-medium transition-colors',
+              query.view === view
+                ? 'border-primary text-gray-900 dark:text-white'
+                : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200',
+            )}
+          >
+            {MESSAGE_VIEW_LABELS[view]}
+            <span className="ml-1.5 text-xs text-gray-400">{counts[view]}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-3 sm:flex-row">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <Input
+            type="search"
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="Search name, email, subject or message"
+            aria-label="Search messages"
+            className="pl-9"
+          />
+        </div>
+        <select
+          value={query.status}
+          onChange={(e) => update({ status: e.target.value as MessageStatus })}
+          aria-label="Filter by read state"
+          className={SELECT_CLASS_NAME}
+        >
+          {(Object.keys(MESSAGE_STATUS_LABELS) as MessageStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {MESSAGE_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+        {(labels.length > 0 || query.labelId) && (
+          <select
+            value={query.labelId ?? ''}
+            onChange={(e) => update({ labelId: e.target.value || null })}
+            aria-label="Filter by label"
+            className={SELECT_CLASS_NAME}
+          >
+            <option value="">Any label</option>
+            {labels.map((label) => (
+              <option key={label._id} value={label._id}>
+                {label.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          value={query.sort}
+          onChange={(e) => update({ sort: e.target.value as MessageSort })}
+          aria-label="Sort messages"
+          className={SELECT_CLASS_NAME}
+        >
+          {(Object.keys(MESSAGE_SORT_LABELS) as MessageSort[]).map((sort) => (
+            <option key={sort} value={sort}>
+              {MESSAGE_SORT_LABELS[sort]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <label className="flex items-center gap-2">
+          From
+          <Input
+            type="date"
+            value={query.from}
+            max={query.to || undefined}
+            onChange={(e) => update({ from: e.target.value })}
+            className="h-9 w-auto"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          To
+          <Input
+            type="date"
+            value={query.to}
+            min={query.from || undefined}
+            onChange={(e) => update({ to: e.target.value })}
+            className="h-9 w-auto"
+          />
+        </label>
+        <Button
+          type="button"
+          size="sm"
+          variant={query.hasPhone ? 'default' : 'outline'}
+          aria-pressed={query.hasPhone}
+          onClick={() => update({ hasPhone: !query.hasPhone })}
+          className={query.hasPhone ? 'text-white' : undefined}
+        >
+          Has phone number
+        </Button>
+        {isFilteredMessageQuery(query) && (
+          <Button type="button" size="sm" variant="ghost" onClick={clearFilters}>
+            Clear filters
+          </Button>
+        )}
+        <div className="ml-auto flex gap-1" role="group" aria-label="Layout">
+          {(Object.keys(MESSAGE_LAYOUT_LABELS) as MessageLayout[]).map((layout) => {
+            const Icon = LAYOUT_ICONS[layout];
+            return (
+              <Button
+                key={layout}
+                type="button"
+                size="sm"
+                variant={query.layout === layout ? 'secondary' : 'ghost'}
+                aria-pressed={query.layout === layout}
+                onClick={() => onQueryChange({ ...query, layout })}
+              >
+                <Icon className="h-4 w-4" />
+                {MESSAGE_LAYOUT_LABELS[layout]}
+              </Button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
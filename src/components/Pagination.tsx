@@ -0,0 +1,71 @@
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { PaginationInfo } from '@/lib/types';
+
+interface PaginationProps {
+  pagination: PaginationInfo;
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+}
+
+// Previous/next buttons with a window of up to five page numbers around the current page
+export function Pagination({ pagination, onPageChange, disabled = false }: PaginationProps) {
+  if (pagination.totalPages <= 1) return null;
+
+  return (
+    <div className="flex items-center justify-between mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+      <div className="text-sm text-gray-600 dark:text-gray-400">
+        Showing page {pagination.currentPage} of {pagination.totalPages} 
+        ({pagination.totalItems} total items)
+      </div>
+      
+      <div className="flex items-center space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(pagination.currentPage - 1)}
+          disabled={!pagination.hasPrev || disabled}
+        >
+          <ChevronLeft className="h-4 w-4" />
+          Previous
+        </Button>
+        
+        <div className="flex items-center space-x-1">
+          {/* Page numbers */}
+          {Array.from({ length: Math.min(5, pagination.totalPages) }, (_, i) => {
+            const pageNumber = Math.max(1, Math.min(
+              pagination.totalPages - 4,
+              Math.max(1, pagination.currentPage - 2)
+            )) + i;
+            
+            if (pageNumber > pagination.totalPages) return null;
+            
+            return (
+              <Button
+                key={pageNumber}
+                variant={pageNumber === pagination.currentPage ? "default" : "outline"}
+                size="sm"
+                onClick={() => onPageChange(pageNumber)}
+                disabled={disabled}
+                aria-current={pageNumber === pagination.currentPage ? 'page' : undefined}
+                className="w-8 h-8 p-0"
+              >
+                {pageNumber}
+              </Button>
+            );
+          })}
+        </div>
+        
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(pagination.currentPage + 1)}
+          disabled={!pagination.hasNext || disabled}
+        >
+          Next
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DialogFooter } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import { ProjectGalleryEditor } from '@/components/ProjectGalleryEditor';
+import { SkillMultiSelect } from '@/components/SkillMultiSelect';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { isApiError } from '@/lib/api';
+import { notify } from '@/lib/notify';
+import { PROJECT_STATUS_LABELS } from '@/lib/projectQuery';
+import { PROJECT_DESCRIPTION_MAX_LENGTH, projectFormSchema } from '@/lib/schemas';
+import type { Project, ProjectFormValues, ProjectStatus, Skill } from '@/lib/types';
+import { createPreviewUrl, revokePreviewUrl, validateImageFile } from '@/lib/upload';
+
+const FORM_FIELDS: (keyof ProjectFormValues)[] = [
+  'name',
+  'description',
+  'thumbnail',
+  'demoLink',
+  'sourceCodeLink',
+  'status',
+  'featured',
+  'skillIds',
+  'gallery',
+];
+
+interface ProjectFormProps {
+  // Project being edited, or null when creating
+  project: Project | null;
+  // Skills the project can be tagged with
+  skills: Skill[];
+  onSubmit: (values: ProjectFormValues, thumbnailFile: File | null) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function ProjectForm({ project, skills, onSubmit, onCancel }: ProjectFormProps) {
+  const form = useForm<ProjectFormValues>({
+    resolver: zodResolver(projectFormSchema),
+    mode: 'onTouched',
+    defaultValues: {
+      name: project?.name ?? '',
+      description: project?.description ?? '',
+      thumbnail: project?.thumbnail ?? '',
+      demoLink: project?.demoLink ?? '',
+      sourceCodeLink: project?.sourceCodeLink ?? '',
+      // New projects stay off the site until they're published
+      status: project?.status ?? 'draft',
+      featured: project?.featured ?? false,
+      skillIds: project?.skillIds ?? [],
+      gallery: project?.gallery ?? [],
+    },
+  });
+
+  const [thumbnailFile, setThumbnailFile] = useState<File | null>(null);
+  const [filePreview, setFilePreview] = useState('');
+  const [fileError, setFileError] = useState('');
+  const [brokenPreview, setBrokenPreview] = useState('');
+  const [galleryUploading, setGalleryUploading] = useState(false);
+
+  const thumbnailUrl = form.watch('thumbnail');
+  const thumbnailPreview = filePreview || thumbnailUrl;
+
+  // Release each blob preview once it is replaced or the dialog closes
+  useEffect(() => () => revokePreviewUrl(filePreview), [filePreview]);
+
+  const clearFile = () => {
+    setFilePreview('');
+    setThumbnailFile(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const validation = validateImageFile(file);
+    if (!validation.valid) {
+      setFileError(validation.error ?? 'Invalid image');
+      e.target.value = '';
+      return;
+    }
+
+    setFileError('');
+    setThumbnailFile(file);
+    setFilePreview(createPreviewUrl(file));
+    // Clear the URL field when file is selected
+    form.setValue('thumbnail', '', { shouldValidate: true });
+  };
+
+  // Put server-side validation messages next to the inputs they belong to
+  const applyServerErrors = (error: unknown) => {
+    if (!isApiError(error) || !error.hasFieldErrors) return false;
+
+    let unmatched = '';
+    for (const [field, message] of Object.entries(error.fieldErrors)) {
+      if ((FORM_FIELDS as string[]).includes(field)) {
+        form.setError(field as keyof ProjectFormValues, { type: 'server', message }, { shouldFocus: !unmatched });
+      } else {
+        unmatched = unmatched ? `${unmatched} ${message}` : message;
+      }
+    }
+    if (unmatched) {
+      form.setError('root.server', { type: 'server', message: unmatched });
+    }
+    return true;
+  };
+
+  const handleSubmit = form.handleSubmit(async (values) => {
+    try {
+      await onSubmit(values, thumbnailFile);
+    } catch (err) {
+      if (!applyServerErrors(err)) {
+        notify.error(err, project ? 'Failed to update project' : 'Failed to create project');
+      }
+    }
+  });
+
+  const rootError = form.formState.errors.root?.server?.message;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={handleSubmit} noValidate>
+        <div className="space-y-4 py-4">
+          {rootError && (
+            <Alert variant="destructive">
+              <AlertDescription>{rootError}</AlertDescription>
+            </Alert>
+          )}
+
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Project Title *</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter project title" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description *</FormLabel>
+                <FormControl>
+                  <MarkdownEditor
+                    placeholder="Describe the project. Markdown is supported."
+                    characterLimit={PROJECT_DESCRIPTION_MAX_LENGTH}
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="space-y-2">
+            <Label>Thumbnail</Label>
+            <div className="space-y-3">
+              {/* File Upload Option */}
+              <div>
+                <Label htmlFor="thumbnailFile" className="text-sm text-gray-600 dark:text-gray-400">
+                  Upload Image File
+                </Label>
+                <Input
+                  id="thumbnailFile"
+                  type="file"
+                  accept="image/*"
+                  onChange={handleFileChange}
+                  className="mt-1"
+                  aria-invalid={!!fileError}
+                />
+                {fileError && <p className="text-destructive text-sm mt-1">{fileError}</p>}
+              </div>
+
+              {/* URL Option */}
+              <FormField
+                control={form.control}
+                name="thumbnail"
+                render={({ field }) => (
+                  <FormItem className="gap-1">
+                    <FormLabel className="text-sm text-gray-600 dark:text-gray-400">Or Enter Image URL</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="https://example.com/image.jpg"
+                        {...field}
+                        onChange={(e) => {
+                          clearFile();
+                          field.onChange(e);
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Preview */}
+              {thumbnailPreview && thumbnailPreview !== brokenPreview && (
+                <div className="mt-2">
+                  <Label className="text-sm text-gray-600 dark:text-gray-400">Preview</Label>
+                  <div className="mt-1 border rounded-md p-2 bg-gray-50 dark:bg-gray-800">
+                    <img
+                      src={thumbnailPreview}
+                      alt="Thumbnail preview"
+                      className="max-h-32 max-w-full object-contain rounded"
+                      onError={() => setBrokenPreview(thumbnailPreview)}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <FormField
+            control={form.control}
+            name="demoLink"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Demo Link</FormLabel>
+                <FormControl>
+                  <Input placeholder="https://my-project.example.com" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="sourceCodeLink"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Source Code Link</FormLabel>
+                <FormControl>
+                  <Input placeholder="https://github.com/user/repo" {...field} />
+                </FormControl>
+                <FormDescription>GitHub, GitLab or Bitbucket repository</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="gallery"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Gallery</FormLabel>
+                <ProjectGalleryEditor
+                  value={field.value}
+                  onChange={field.onChange}
+                  cover={thumbnailFile ? '' : thumbnailUrl}
+                  onCoverChange={(url) => {
+                    clearFile();
+                    form.setValue('thumbnail', url, { shouldDirty: true, shouldValidate: true });
+                  }}
+                  onUploadingChange={setGalleryUploading}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="skillIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tech Stack</FormLabel>
+                <SkillMultiSelect skills={skills} value={field.value} onChange={field.onChange} />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="status"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Status</FormLabel>
+                  <FormControl>
+                    <select
+                      className="h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                      {...field}
+                    >
+                      {(Object.keys(PROJECT_STATUS_LABELS) as ProjectStatus[]).map((status) => (
+                        <option key={status} value={status}>
+                          {PROJECT_STATUS_LABELS[status]}
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormDescription>Only published projects appear on the site</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="featured"
+              render={({ field: { value, onChange, ...field } }) => (
+                <FormItem>
+                  <div className="flex items-center gap-2 sm:mt-7">
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 rounded border-input accent-primary"
+                        checked={value}
+                        onChange={(e) => onChange(e.target.checked)}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormLabel>Featured project</FormLabel>
+                  </div>
+                  <FormDescription>Highlighted at the top of the portfolio</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button className='text-white' type="submit" disabled={form.formState.isSubmitting || galleryUploading}>
+            {galleryUploading ? 'Uploading images...' : form.formState.isSubmitting ? 'Saving...' : (project ? 'Update' : 'Create')} Project
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
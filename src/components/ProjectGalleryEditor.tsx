@@ -0,0 +1,184 @@
+import { useEffect, useId, useRef, useState } from 'react';
+import { ImagePlus, Loader2, Star, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ReorderHandle } from '@/components/ReorderHandle';
+import { useDragReorder } from '@/hooks/useDragReorder';
+import { notify } from '@/lib/notify';
+import { createPreviewUrl, revokePreviewUrl, uploadImage, validateImageFile } from '@/lib/upload';
+import { cn } from '@/lib/utils';
+import type { GalleryImage } from '@/lib/types';
+
+interface PendingUpload {
+  id: string;
+  previewUrl: string;
+}
+
+interface ProjectGalleryEditorProps {
+  value: GalleryImage[];
+  onChange: (value: GalleryImage[]) => void;
+  // URL of the cover image (the project thumbnail)
+  cover: string;
+  onCoverChange: (url: string) => void;
+  // Lets the form hold off submitting while images are still uploading
+  onUploadingChange: (uploading: boolean) => void;
+}
+
+/**
+ * Gallery images for a project. Files are uploaded as soon as they're picked,
+ * so the project itself only stores URLs; images can be reordered, captioned
+ * with alt text, and one of them chosen as the cover.
+ */
+export function ProjectGalleryEditor({ value, onChange, cover, onCoverChange, onUploadingChange }: ProjectGalleryEditorProps) {
+  const inputId = useId();
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+
+  // Uploads finish one at a time, so each one appends to the latest gallery rather than a stale copy
+  const valueRef = useRef(value);
+  useEffect(() => {
+    valueRef.current = value;
+  }, [value]);
+
+  const isUploading = uploads.length > 0;
+  useEffect(() => {
+    onUploadingChange(isUploading);
+  }, [isUploading, onUploadingChange]);
+
+  const reorder = useDragReorder({
+    ids: value.map((image) => image.url),
+    onReorder: (urls) => {
+      const byUrl = new Map(value.map((image) => [image.url, image]));
+      onChange(urls.map((url) => byUrl.get(url)).filter((image): image is GalleryImage => image !== undefined));
+    },
+  });
+
+  const uploadFile = async (file: File) => {
+    const upload = { id: `${file.name}-${Date.now()}-${Math.random()}`, previewUrl: createPreviewUrl(file) };
+    setUploads((current) => [...current, upload]);
+    try {
+      const url = await uploadImage(file);
+      if (!valueRef.current.some((image) => image.url === url)) {
+        const next = [...valueRef.current, { url, alt: '' }];
+        valueRef.current = next;
+        onChange(next);
+      }
+    } catch (err) {
+      notify.error(err, `Failed to upload ${file.name}`);
+    } finally {
+      revokePreviewUrl(upload.previewUrl);
+      setUploads((current) => current.filter((pending) => pending.id !== upload.id));
+    }
+  };
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+
+    for (const file of files) {
+      const validation = validateImageFile(file);
+      if (!validation.valid) {
+        notify.error(null, `${file.name}: ${validation.error}`);
+        continue;
+      }
+      uploadFile(file);
+    }
+  };
+
+  const updateAlt = (url: string, alt: string) => {
+    onChange(value.map((image) => (image.url === url ? { ...image, alt } : image)));
+  };
+
+  const removeImage = (url: string) => {
+    onChange(value.filter((image) => image.url !== url));
+    if (url === cover) {
+      onCoverChange('');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {(value.length > 0 || isUploading) && (
+        <ul className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+          {value.map((image, index) => {
+            const isCover = image.url === cover;
+            return (
+              <li
+                key={image.url}
+                {...reorder.getItemProps(image.url)}
+                className={cn(
+                  'space-y-2 rounded-md border border-input p-2',
+                  isCover && 'border-amber-400',
+                  reorder.draggingId === image.url && 'opacity-50',
+                  reorder.overId === image.url && reorder.draggingId !== image.url && 'ring-2 ring-primary',
+                )}
+              >
+                <div className="relative">
+                  <img
+                    src={image.url}
+                    alt={image.alt || `Gallery image ${index + 1}`}
+                    className="h-24 w-full rounded object-cover"
+                  />
+                  {isCover && (
+                    <span className="absolute left-1 top-1 inline-flex items-center gap-1 rounded bg-amber-400 px-1.5 text-xs font-medium text-black">
+                      <Star className="h-3 w-3 fill-current" />
+                      Cover
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => removeImage(image.url)}
+                    aria-label={`Remove image ${index + 1}`}
+                    className="absolute right-1 top-1 rounded bg-black/60 p-0.5 text-white hover:bg-black/80"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+                <Input
+                  value={image.alt}
+                  onChange={(e) => updateAlt(image.url, e.target.value)}
+                  placeholder="Alt text"
+                  aria-label={`Alt text for image ${index + 1}`}
+                  maxLength={200}
+                  className="h-8 text-xs"
+                />
+                <div className="flex items-center justify-between">
+                  <ReorderHandle label={`image ${index + 1}`} {...reorder.getHandleProps(image.url)} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={isCover}
+                    onClick={() => onCoverChange(image.url)}
+                  >
+                    {isCover ? 'Cover image' : 'Set as cover'}
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+          {uploads.map((upload) => (
+            <li key={upload.id} className="relative rounded-md border border-dashed border-input p-2" aria-busy>
+              <img src={upload.previewUrl} alt="" className="h-24 w-full rounded object-cover opacity-50" />
+              <Loader2 className="absolute left-1/2 top-1/2 h-5 w-5 -translate-x-1/2 -translate-y-1/2 animate-spin" />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div>
+        <input id={inputId} type="file" accept="image/*" multiple onChange={handleFilesChange} className="sr-only" />
+        <Button type="button" variant="outline" size="sm" asChild>
+          <label htmlFor={inputId} className="cursor-pointer">
+            <ImagePlus className="h-4 w-4" />
+            Add images
+          </label>
+        </Button>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          {value.length} image{value.length !== 1 ? 's' : ''}
+          {isUploading && `, ${uploads.length} uploading`}
+          {' · '}drag or use the handles to reorder
+        </p>
+      </div>
+    </div>
+  );
+}
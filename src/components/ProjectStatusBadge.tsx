@@ -0,0 +1,29 @@
+import { Badge } from '@/components/ui/badge';
+import { Star } from 'lucide-react';
+import { PROJECT_STATUS_LABELS } from '@/lib/projectQuery';
+import type { Project } from '@/lib/types';
+
+const STATUS_VARIANTS = {
+  published: 'default',
+  draft: 'outline',
+  archived: 'secondary',
+} as const;
+
+interface ProjectStatusBadgeProps {
+  project: Pick<Project, 'status' | 'featured'>;
+}
+
+// Publication status, plus a star when the project is featured
+export function ProjectStatusBadge({ project }: ProjectStatusBadgeProps) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      <Badge variant={STATUS_VARIANTS[project.status]}>{PROJECT_STATUS_LABELS[project.status]}</Badge>
+      {project.featured && (
+        <Badge variant="outline" className="border-amber-400 text-amber-600 dark:text-amber-400">
+          <Star className="fill-current" />
+          Featured
+        </Badge>
+      )}
+    </div>
+  );
+}
@@ -1,167 +1,121 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import { useLocation, useMatch, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Plus, Edit, Trash2, ExternalLink, Github } from 'lucide-react';
-import { createPreviewUrl, revokePreviewUrl } from '@/lib/upload';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { LinkHealthBadge } from '@/components/LinkHealthBadge';
+import { Pagination } from '@/components/Pagination';
+import { ProjectForm } from '@/components/ProjectForm';
+import { ProjectsToolbar } from '@/components/ProjectsToolbar';
+import { ProjectStatusBadge } from '@/components/ProjectStatusBadge';
+import { ReorderHandle } from '@/components/ReorderHandle';
+import { SkillIconList } from '@/components/SkillIconList';
+import { useDragReorder } from '@/hooks/useDragReorder';
+import { markdownToPlainText } from '@/lib/markdown';
+import { notify } from '@/lib/notify';
+import { cn } from '@/lib/utils';
+import { paginate } from '@/lib/pagination';
+import {
+  DEFAULT_PROJECT_QUERY,
+  canReorderProjects,
+  countProjectsByTab,
+  isFilteredProjectQuery,
+  queryProjects,
+  type ProjectQuery,
+} from '@/lib/projectQuery';
+import { Plus, Edit, Trash2, ExternalLink, Github, Images } from 'lucide-react';
+import type { LinkHealth, Project, ProjectFormValues, ProjectInput, Skill } from '@/lib/types';
 
-interface Project {
-  _id: string;
-  name: string;
-  description: string;
-  thumbnail: string;
-  demoLink: string;
-  sourceCodeLink: string;
-}
+const PROJECTS_PER_PAGE = 10;
 
 interface ProjectsManagementProps {
   projects: Project[];
-  onAddProject: (project: Omit<Project, '_id'> | FormData) => Promise<void>;
-  onUpdateProject: (id: string, project: Omit<Project, '_id'> | FormData) => Promise<void>;
-  onDeleteProject: (id: string) => Promise<void>;
+  // Every skill, for tagging projects with their tech stack
+  skills: Skill[];
+  // Latest link check results, by URL
+  linkHealth: Record<string, LinkHealth>;
+  // Projects with a mutation waiting on the server
+  pendingIds: ReadonlySet<string>;
+  onAddProject: (project: ProjectInput, thumbnailFile?: File | null) => Promise<void>;
+  onUpdateProject: (id: string, project: ProjectInput, thumbnailFile?: File | null) => Promise<void>;
+  // Saves a new portfolio order, given every project id first to last
+  onReorderProjects: (ids: string[]) => Promise<void>;
+  // Hides the project and offers an undo window before the delete is sent
+  onDeleteProject: (project: Project) => void;
 }
 
-export function ProjectsManagement({ projects, onAddProject, onUpdateProject, onDeleteProject }: ProjectsManagementProps) {
-  const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [editingProject, setEditingProject] = useState<Project | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
-  
-  const [formData, setFormData] = useState({
-    title: '',
-    description: '',
-    image: '',
-    demoLink: '',
-    sourceCodeLink: ''
-  });
-  
-  const [thumbnailFile, setThumbnailFile] = useState<File | null>(null);
-  const [thumbnailPreview, setThumbnailPreview] = useState<string>('');
+export function ProjectsManagement({ projects, skills, linkHealth, pendingIds, onAddProject, onUpdateProject, onReorderProjects, onDeleteProject }: ProjectsManagementProps) {
+  const navigate = useNavigate();
+  const { search } = useLocation();
+  const [deleteTarget, setDeleteTarget] = useState<Project | null>(null);
 
-  const resetForm = () => {
-    setFormData({
-      title: '',
-      description: '',
-      image: '',
-      demoLink: '',
-      sourceCodeLink: ''
-    });
-    setEditingProject(null);
-    setError('');
-    setThumbnailFile(null);
-    // Clean up preview URL if it's a blob URL
-    if (thumbnailPreview && thumbnailPreview.startsWith('blob:')) {
-      revokePreviewUrl(thumbnailPreview);
-    }
-    setThumbnailPreview('');
-  };
+  // `?skill=<id>` links here from the skills page with the tech stack filter applied
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [query, setQuery] = useState<ProjectQuery>(() => ({
+    ...DEFAULT_PROJECT_QUERY,
+    skillId: searchParams.get('skill'),
+  }));
+  const [page, setPage] = useState(1);
 
-  const handleOpenDialog = (project?: Project) => {
-    if (project) {
-      setEditingProject(project);
-      setFormData({
-        title: project.name,
-        description: project.description,
-        image: project.thumbnail,
-        demoLink: project.demoLink,
-        sourceCodeLink: project.sourceCodeLink
-      });
-      setThumbnailPreview(project.thumbnail);
-      setThumbnailFile(null);
-    } else {
-      resetForm();
-    }
-    setIsDialogOpen(true);
-  };
+  const skillsById = useMemo(() => new Map(skills.map((skill) => [skill._id, skill])), [skills]);
+  const projectSkills = (project: Project) =>
+    project.skillIds.map((id) => skillsById.get(id)).filter((skill): skill is Skill => skill !== undefined);
 
-  const handleCloseDialog = () => {
-    setIsDialogOpen(false);
-    resetForm();
-  };
+  const matchingProjects = useMemo(() => queryProjects(projects, query), [projects, query]);
+  const tabCounts = useMemo(() => countProjectsByTab(projects), [projects]);
+  const projectPage = paginate(matchingProjects, page, PROJECTS_PER_PAGE);
+  const isFiltered = isFilteredProjectQuery(query);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setThumbnailFile(file);
-      // Clean up previous preview URL if it exists
-      if (thumbnailPreview && thumbnailPreview.startsWith('blob:')) {
-        revokePreviewUrl(thumbnailPreview);
+  const canReorder = canReorderProjects(query);
+  const reorder = useDragReorder({
+    ids: matchingProjects.map((project) => project._id),
+    onReorder: async (ids) => {
+      try {
+        await onReorderProjects(ids);
+      } catch (err) {
+        notify.error(err, 'Failed to save the new project order');
       }
-      // Create new preview URL using createObjectURL (more efficient than FileReader)
-      const previewUrl = createPreviewUrl(file);
-      setThumbnailPreview(previewUrl);
-      // Clear the URL field when file is selected
-      setFormData({ ...formData, image: '' });
-    }
-  };
+    },
+    disabled: !canReorder,
+  });
 
-  const handleUrlChange = (url: string) => {
-    setFormData({ ...formData, image: url });
-    // Clean up previous preview URL if it's a blob URL
-    if (thumbnailPreview && thumbnailPreview.startsWith('blob:')) {
-      revokePreviewUrl(thumbnailPreview);
+  // Any change to the search or filters starts again from the first page
+  const handleQueryChange = (nextQuery: ProjectQuery) => {
+    setQuery(nextQuery);
+    setPage(1);
+    if (nextQuery.skillId !== searchParams.get('skill')) {
+      setSearchParams(nextQuery.skillId ? { skill: nextQuery.skillId } : {}, { replace: true });
     }
-    setThumbnailPreview(url);
-    setThumbnailFile(null);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!formData.title || !formData.description) {
-      setError('Please fill in all required fields');
-      return;
-    }
-
-    setLoading(true);
-    setError('');
+  // The dialog is driven by the route: /projects/new or /projects/:id/edit
+  const editMatch = useMatch('/projects/:id/edit');
+  const isCreating = useMatch('/projects/new') !== null;
+  const editingProject = projects.find((project) => project._id === editMatch?.params.id) ?? null;
+  const isDialogOpen = isCreating || editingProject !== null;
 
-    try {
-      // Create FormData and include all fields
-      const formDataToSend = new FormData();
-      formDataToSend.append('title', formData.title);
-      formDataToSend.append('description', formData.description);
-      formDataToSend.append('demoLink', formData.demoLink);
-      formDataToSend.append('sourceCodeLink', formData.sourceCodeLink);
-      
-      // If a file is selected, append it as binary data
-      if (thumbnailFile) {
-        formDataToSend.append('image', thumbnailFile);
-      } else if (formData.image) {
-        // If URL is provided instead of file
-        formDataToSend.append('image', formData.image);
-      }
+  // Remount the form whenever the dialog switches to a different record (including deep links)
+  const dialogKey = editingProject ? editingProject._id : 'new';
 
-      if (editingProject) {
-        await onUpdateProject(editingProject._id, formDataToSend);
-      } else {
-        await onAddProject(formDataToSend);
-      }
-      handleCloseDialog();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Operation failed');
-    } finally {
-      setLoading(false);
-    }
+  const handleOpenDialog = (project?: Project) => {
+    navigate({ pathname: project ? `/projects/${project._id}/edit` : '/projects/new', search });
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this project?')) {
-      return;
-    }
+  const handleCloseDialog = () => {
+    navigate({ pathname: '/projects', search });
+  };
 
-    setLoading(true);
-    try {
-      await onDeleteProject(id);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Delete failed');
-    } finally {
-      setLoading(false);
+  // Errors are left to ProjectForm, which maps field errors onto its inputs
+  const handleSubmit = async (values: ProjectFormValues, thumbnailFile: File | null) => {
+    if (editingProject) {
+      await onUpdateProject(editingProject._id, values, thumbnailFile);
+    } else {
+      await onAddProject(values, thumbnailFile);
     }
+    notify.success(editingProject ? 'Project updated' : 'Project created');
+    handleCloseDialog();
   };
 
   return (
@@ -174,14 +128,14 @@ export function ProjectsManagement({ projects, onAddProject, onUpdateProject, on
           </p>
         </div>
         
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => !open && handleCloseDialog()}>
           <DialogTrigger asChild>
             <Button className='text-white' onClick={() => handleOpenDialog()}>
               <Plus className="mr-2 h-4 w-4" />
               Add Project
             </Button>
           </DialogTrigger>
-          <DialogContent className="sm:max-w-[600px] text-white">
+          <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto text-white">
             <DialogHeader>
               <DialogTitle>
                 {editingProject ? 'Edit Project' : 'Add New Project'}
@@ -190,176 +144,119 @@ export function ProjectsManagement({ projects, onAddProject, onUpdateProject, on
                 {editingProject ? 'Update the project details below.' : 'Fill in the details to create a new project.'}
               </DialogDescription>
             </DialogHeader>
-            
-            <form onSubmit={handleSubmit}>
-              <div className="space-y-4 py-4">
-                {error && (
-                  <Alert variant="destructive">
-                    <AlertDescription>{error}</AlertDescription>
-                  </Alert>
-                )}
-                
-                <div className="space-y-2">
-                  <Label htmlFor="title">Project Title *</Label>
-                  <Input
-                    id="title"
-                    value={formData.title}
-                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                    placeholder="Enter project title"
-                    required
-                  />
-                </div>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description *</Label>
-                  <textarea
-                    id="description"
-                    className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                    value={formData.description}
-                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                    placeholder="Enter project description"
-                    required
-                  />
-                </div>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="thumbnail">Thumbnail</Label>
-                  <div className="space-y-3">
-                    {/* File Upload Option */}
-                    <div>
-                      <Label htmlFor="thumbnailFile" className="text-sm text-gray-600 dark:text-gray-400">
-                        Upload Image File
-                      </Label>
-                      <Input
-                        id="thumbnailFile"
-                        type="file"
-                        accept="image/*"
-                        onChange={handleFileChange}
-                        className="mt-1"
-                      />
-                    </div>
-                    
-                    {/* URL Option */}
-                    <div>
-                      <Label htmlFor="thumbnailUrl" className="text-sm text-gray-600 dark:text-gray-400">
-                        Or Enter Image URL
-                      </Label>
-                      <Input
-                        id="thumbnailUrl"
-                        value={formData.image}
-                        onChange={(e) => handleUrlChange(e.target.value)}
-                        placeholder="https://example.com/image.jpg"
-                        className="mt-1"
-                      />
-                    </div>
-                    
-                    {/* Preview */}
-                    {thumbnailPreview && (
-                      <div className="mt-2">
-                        <Label className="text-sm text-gray-600 dark:text-gray-400">Preview</Label>
-                        <div className="mt-1 border rounded-md p-2 bg-gray-50 dark:bg-gray-800">
-                          <img
-                            src={thumbnailPreview}
-                            alt="Thumbnail preview"
-                            className="max-h-32 max-w-full object-contain rounded"
-                            onError={() => setThumbnailPreview('')}
-                          />
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                </div>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="demoLink">Demo Link</Label>
-                  <Input
-                    id="demoLink"
-                    value={formData.demoLink}
-                    onChange={(e) => setFormData({ ...formData, demoLink: e.target.value })}
-                    placeholder="Enter demo/live URL"
-                  />
-                </div>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="sourceCodeLink">Source Code Link</Label>
-                  <Input
-                    id="sourceCodeLink"
-                    value={formData.sourceCodeLink}
-                    onChange={(e) => setFormData({ ...formData, sourceCodeLink: e.target.value })}
-                    placeholder="Enter GitHub or source code URL"
-                  />
-                </div>
-              </div>
-              
-              <DialogFooter>
-                <Button type="button" variant="outline" onClick={handleCloseDialog}>
-                  Cancel
-                </Button>
-                <Button className='text-white' type="submit" disabled={loading}>
-                  {loading ? 'Saving...' : (editingProject ? 'Update' : 'Create')} Project
-                </Button>
-              </DialogFooter>
-            </form>
+
+            <ProjectForm
+              key={dialogKey}
+              project={editingProject}
+              skills={skills}
+              onSubmit={handleSubmit}
+              onCancel={handleCloseDialog}
+            />
           </DialogContent>
         </Dialog>
       </div>
 
-      {error && (
-        <Alert variant="destructive">
-          <AlertDescription>{error}</AlertDescription>
-        </Alert>
-      )}
-
       <Card>
         <CardHeader>
           <CardTitle>All Projects</CardTitle>
           <CardDescription>
-            {projects.length} project{projects.length !== 1 ? 's' : ''} in your portfolio
+            {isFiltered
+              ? `${matchingProjects.length} of ${projects.length} projects match`
+              : `${projects.length} project${projects.length !== 1 ? 's' : ''} in your portfolio`}
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {projects.length > 0 && <ProjectsToolbar query={query} onQueryChange={handleQueryChange} tabCounts={tabCounts} skills={skills} />}
+
           {projects.length === 0 ? (
             <div className="text-center py-8">
               <p className="text-gray-500 dark:text-gray-400">No projects found. Add your first project!</p>
             </div>
+          ) : matchingProjects.length === 0 ? (
+            <div className="text-center py-8 space-y-3">
+              <p className="text-gray-500 dark:text-gray-400">No projects match this view.</p>
+              <Button variant="outline" size="sm" onClick={() => handleQueryChange({ ...DEFAULT_PROJECT_QUERY, sort: query.sort })}>
+                Show all projects
+              </Button>
+            </div>
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-[40px]">
+                    <span className="sr-only">Order</span>
+                  </TableHead>
                   <TableHead>Title</TableHead>
+                  <TableHead>Status</TableHead>
                   <TableHead>Description</TableHead>
+                  <TableHead>Stack</TableHead>
                   <TableHead>Links</TableHead>
                   <TableHead className="w-[100px]">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {projects.map((project) => (
-                  <TableRow key={project._id}>
-                    <TableCell className="font-medium">{project.name}</TableCell>
+                {projectPage.data.map((project) => (
+                  <TableRow
+                    key={project._id}
+                    {...reorder.getItemProps(project._id)}
+                    aria-busy={pendingIds.has(project._id)}
+                    className={cn(
+                      (pendingIds.has(project._id) || reorder.draggingId === project._id) && 'opacity-50',
+                      reorder.overId === project._id && reorder.draggingId !== project._id && 'border-t-2 border-t-primary',
+                    )}
+                  >
+                    <TableCell>
+                      <ReorderHandle
+                        label={project.name}
+                        {...reorder.getHandleProps(project._id)}
+                        disabledReason="Show all projects in portfolio order to reorder them"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{project.name}</div>
+                      {project.gallery.length > 0 && (
+                        <div className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                          <Images className="h-3 w-3" />
+                          {project.gallery.length} image{project.gallery.length !== 1 ? 's' : ''}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <ProjectStatusBadge project={project} />
+                    </TableCell>
                     <TableCell className="max-w-[300px] truncate">
-                      {project.description}
+                      {markdownToPlainText(project.description)}
+                    </TableCell>
+                    <TableCell>
+                      <SkillIconList skills={projectSkills(project)} />
                     </TableCell>
                     <TableCell>
                       <div className="flex space-x-2">
                         {project.demoLink && (
-                          <a
-                            href={project.demoLink}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-blue-600 hover:text-blue-800"
-                          >
-                            <ExternalLink className="h-4 w-4" />
-                          </a>
+                          <span className="inline-flex items-center gap-1">
+                            <a
+                              href={project.demoLink}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              <ExternalLink className="h-4 w-4" />
+                            </a>
+                            <LinkHealthBadge health={linkHealth[project.demoLink]} />
+                          </span>
                         )}
                         {project.sourceCodeLink && (
-                          <a
-                            href={project.sourceCodeLink}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-gray-600 hover:text-gray-800"
-                          >
-                            <Github className="h-4 w-4" />
-                          </a>
+                          <span className="inline-flex items-center gap-1">
+                            <a
+                              href={project.sourceCodeLink}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-gray-600 hover:text-gray-800"
+                            >
+                              <Github className="h-4 w-4" />
+                            </a>
+                            <LinkHealthBadge health={linkHealth[project.sourceCodeLink]} />
+                          </span>
                         )}
                       </div>
                     </TableCell>
@@ -369,14 +266,15 @@ export function ProjectsManagement({ projects, onAddProject, onUpdateProject, on
                           variant="outline"
                           size="sm"
                           onClick={() => handleOpenDialog(project)}
+                          disabled={pendingIds.has(project._id)}
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => handleDelete(project._id)}
-                          disabled={loading}
+                          onClick={() => setDeleteTarget(project)}
+                          disabled={pendingIds.has(project._id)}
                         >
                           <Trash2 className="h-4 w-4" />
                         </Button>
@@ -387,8 +285,25 @@ export function ProjectsManagement({ projects, onAddProject, onUpdateProject, on
               </TableBody>
             </Table>
           )}
+
+          <Pagination pagination={projectPage.pagination} onPageChange={setPage} />
         </CardContent>
       </Card>
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title="Delete project?"
+        description={
+          <>
+            <span className="font-semibold">{deleteTarget?.name}</span> will be removed from your portfolio.
+            You can undo this for a few seconds afterwards.
+          </>
+        }
+        confirmText={deleteTarget?.name}
+        confirmLabel="Delete project"
+        onConfirm={() => deleteTarget && onDeleteProject(deleteTarget)}
+      />
     </div>
   );
 }
@@ -0,0 +1,120 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Search } from 'lucide-react';
+import {
+  PROJECT_FILTER_LABELS,
+  PROJECT_SORT_LABELS,
+  PROJECT_TAB_LABELS,
+  type ProjectFilter,
+  type ProjectQuery,
+  type ProjectSort,
+  type ProjectTab,
+} from '@/lib/projectQuery';
+import { cn } from '@/lib/utils';
+import type { Skill } from '@/lib/types';
+
+interface ProjectsToolbarProps {
+  query: ProjectQuery;
+  onQueryChange: (query: ProjectQuery) => void;
+  // Projects under each status tab
+  tabCounts: Record<ProjectTab, number>;
+  // Skills offered in the tech stack filter
+  skills: Skill[];
+}
+
+const SELECT_CLASS_NAME =
+  'h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+export function ProjectsToolbar({ query, onQueryChange, tabCounts, skills }: ProjectsToolbarProps) {
+  const toggleFilter = (filter: ProjectFilter) => {
+    const filters = query.filters.includes(filter)
+      ? query.filters.filter((active) => active !== filter)
+      : [...query.filters, filter];
+    onQueryChange({ ...query, filters });
+  };
+
+  return (
+    <div className="space-y-3 mb-4">
+      <div className="flex flex-wrap gap-1 border-b border-gray-200 dark:border-gray-700" role="tablist" aria-label="Project status">
+        {(Object.keys(PROJECT_TAB_LABELS) as ProjectTab[]).map((tab) => (
+          <button
+            key={tab}
+            type="button"
+            role="tab"
+            aria-selected={query.tab === tab}
+            onClick={() => onQueryChange({ ...query, tab })}
+            className={cn(
+              '-mb-px border-b-2 px-3 py-2 text-sm font-medium transition-colors',
+              query.tab === tab
+                ? 'border-primary text-gray-900 dark:text-white'
+                : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200',
+            )}
+          >
+            {PROJECT_TAB_LABELS[tab]}
+            <span className="ml-1.5 text-xs text-gray-400">{tabCounts[tab]}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-3 sm:flex-row">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <Input
+            type="search"
+            value={query.search}
+            onChange={(e) => onQueryChange({ ...query, search: e.target.value })}
+            placeholder="Search by name or description"
+            aria-label="Search projects"
+            className="pl-9"
+          />
+        </div>
+        {skills.length > 0 && (
+          <select
+            value={query.skillId ?? ''}
+            onChange={(e) => onQueryChange({ ...query, skillId: e.target.value || null })}
+            aria-label="Filter by skill"
+            className={SELECT_CLASS_NAME}
+          >
+            <option value="">All skills</option>
+            {skills.map((skill) => (
+              <option key={skill._id} value={skill._id}>
+                {skill.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          value={query.sort}
+          onChange={(e) => onQueryChange({ ...query, sort: e.target.value as ProjectSort })}
+          aria-label="Sort projects"
+          className={SELECT_CLASS_NAME}
+        >
+          {(Object.keys(PROJECT_SORT_LABELS) as ProjectSort[]).map((sort) => (
+            <option key={sort} value={sort}>
+              {PROJECT_SORT_LABELS[sort]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Filter projects">
+        {(Object.keys(PROJECT_FILTER_LABELS) as ProjectFilter[]).map((filter) => {
+          const active = query.filters.includes(filter);
+          return (
+            <Button
+              key={filter}
+              type="button"
+              size="sm"
+              variant={active ? 'default' : 'outline'}
+              aria-pressed={active}
+              onClick={() => toggleFilter(filter)}
+              className={active ? 'text-white' : undefined}
+            >
+              {PROJECT_FILTER_LABELS[filter]}
+            </Button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
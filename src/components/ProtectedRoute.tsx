@@ -0,0 +1,18 @@
+import { Navigate, useLocation } from 'react-router-dom';
+import { buildLoginPath } from '@/lib/session';
+
+interface ProtectedRouteProps {
+  isAuthenticated: boolean;
+  children: React.ReactNode;
+}
+
+// Sends signed-out visitors to the login page, remembering where they were headed
+export function ProtectedRoute({ isAuthenticated, children }: ProtectedRouteProps) {
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    return <Navigate to={buildLoginPath(`${location.pathname}${location.search}`)} replace />;
+  }
+
+  return <>{children}</>;
+}
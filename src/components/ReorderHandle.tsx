@@ -0,0 +1,32 @@
+import { GripVertical } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ReorderHandleProps {
+  // Name of the item, read out by screen readers
+  label: string;
+  disabled?: boolean;
+  // Shown as a tooltip while reordering isn't available
+  disabledReason?: string;
+  onKeyDown: (e: React.KeyboardEvent) => void;
+  className?: string;
+}
+
+// Grab handle for rows managed by useDragReorder; focus it and use the arrow keys to move the item
+export function ReorderHandle({ label, disabled = false, disabledReason, onKeyDown, className }: ReorderHandleProps) {
+  return (
+    <button
+      type="button"
+      aria-label={`Reorder ${label}. Use the arrow keys to move it.`}
+      title={disabled ? disabledReason : 'Drag or use the arrow keys to reorder'}
+      disabled={disabled}
+      onKeyDown={onKeyDown}
+      className={cn(
+        'rounded p-1 text-gray-400 hover:text-gray-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring dark:hover:text-gray-200',
+        disabled ? 'cursor-not-allowed opacity-40' : 'cursor-grab active:cursor-grabbing',
+        className,
+      )}
+    >
+      <GripVertical className="h-4 w-4" />
+    </button>
+  );
+}
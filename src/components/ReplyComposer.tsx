@@ -0,0 +1,173 @@
+import { useId, useState } from 'react';
+import { Save, Send, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useReplyTemplates } from '@/hooks/useReplyTemplates';
+import { notify } from '@/lib/notify';
+import { REPLY_PLACEHOLDERS, fillReplyTemplate, unfillReplyTemplate, type ReplyTemplate } from '@/lib/replyTemplates';
+import type { ContactMessage, MessageReplyInput } from '@/lib/types';
+
+interface ReplyComposerProps {
+  message: ContactMessage;
+  onSend: (reply: MessageReplyInput) => Promise<void>;
+}
+
+const SELECT_CLASS_NAME =
+  'h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+/**
+ * Writes a reply to a contact message. Templates fill in the sender's name and
+ * subject when applied; the current draft can be saved as a new template.
+ */
+export function ReplyComposer({ message, onSend }: ReplyComposerProps) {
+  const id = useId();
+  const { templates, saveTemplate, deleteTemplate } = useReplyTemplates();
+  const [templateId, setTemplateId] = useState('');
+  // The template the draft was filled from, saved as-is if the draft wasn't edited
+  const [sourceTemplate, setSourceTemplate] = useState<ReplyTemplate | null>(null);
+  const [subject, setSubject] = useState(() => `Re: ${message.subject || '(no subject)'}`);
+  const [body, setBody] = useState('');
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const selectedTemplate = templates.find((template) => template.id === templateId);
+
+  const applyTemplate = (nextId: string) => {
+    setTemplateId(nextId);
+    const template = templates.find((candidate) => candidate.id === nextId);
+    setSourceTemplate(template ?? null);
+    if (!template) return;
+    setSubject(fillReplyTemplate(template.subject, message));
+    setBody(fillReplyTemplate(template.body, message));
+  };
+
+  const handleSaveTemplate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = templateName?.trim();
+    if (!name) return;
+    // Store the placeholders rather than this sender's details
+    const isUnedited =
+      sourceTemplate !== null &&
+      fillReplyTemplate(sourceTemplate.subject, message) === subject &&
+      fillReplyTemplate(sourceTemplate.body, message) === body;
+    if (isUnedited) {
+      saveTemplate({ name, subject: sourceTemplate.subject, body: sourceTemplate.body });
+    } else {
+      saveTemplate({ name, subject: unfillReplyTemplate(subject, message), body: unfillReplyTemplate(body, message) });
+    }
+    setTemplateName(null);
+    notify.success(`Saved template "${name}"`);
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!selectedTemplate) return;
+    deleteTemplate(selectedTemplate.id);
+    setTemplateId('');
+    setSourceTemplate(null);
+    notify.success(`Deleted template "${selectedTemplate.name}"`);
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    setSending(true);
+    try {
+      await onSend({ subject: subject.trim(), body: body.trim() });
+      notify.success(`Reply sent to ${message.email}`);
+      setBody('');
+      setTemplateId('');
+      setSourceTemplate(null);
+    } catch (err) {
+      notify.error(err, 'Failed to send reply');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-input p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Label htmlFor={`${id}-template`} className="text-sm">Template</Label>
+        <select
+          id={`${id}-template`}
+          value={templateId}
+          onChange={(e) => applyTemplate(e.target.value)}
+          className={SELECT_CLASS_NAME}
+        >
+          <option value="">None</option>
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+            </option>
+          ))}
+        </select>
+        {selectedTemplate && (
+          <Button type="button" variant="ghost" size="sm" onClick={handleDeleteTemplate}>
+            <Trash2 className="h-3.5 w-3.5" />
+            Delete template
+          </Button>
+        )}
+      </div>
+
+      <form onSubmit={handleSend} className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-subject`}>Subject</Label>
+          <Input id={`${id}-subject`} value={subject} onChange={(e) => setSubject(e.target.value)} maxLength={200} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-body`}>Reply to {message.name}</Label>
+          <textarea
+            id={`${id}-body`}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={6}
+            maxLength={5000}
+            placeholder="Write your reply…"
+            className="w-full resize-y rounded-md border border-input bg-transparent px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+        </div>
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          {templateName === null && (
+            <Button type="button" variant="ghost" size="sm" className="mr-auto" disabled={!body.trim()} onClick={() => setTemplateName('')}>
+              <Save className="h-3.5 w-3.5" />
+              Save as template
+            </Button>
+          )}
+          <Button type="submit" className="text-white" disabled={sending || !body.trim()}>
+            <Send className="h-4 w-4" />
+            {sending ? 'Sending...' : 'Send reply'}
+          </Button>
+        </div>
+      </form>
+
+      {templateName !== null && (
+        <form onSubmit={handleSaveTemplate} className="space-y-1">
+          <div className="flex gap-2">
+            <Input
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="Template name"
+              aria-label="Template name"
+              maxLength={60}
+              autoFocus
+            />
+            <Button type="submit" variant="outline" disabled={!templateName.trim()}>
+              Save
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => setTemplateName(null)}>
+              Cancel
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The sender's name and subject are saved as{' '}
+            {Object.entries(REPLY_PLACEHOLDERS)
+              .map(([placeholder, label]) => `${placeholder} (${label.toLowerCase()})`)
+              .join(' and ')}
+            . Saving under an existing name replaces that template.
+          </p>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { Check, Pencil, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ReorderHandle } from '@/components/ReorderHandle';
+import { useDragReorder } from '@/hooks/useDragReorder';
+import { notify } from '@/lib/notify';
+import { SUGGESTED_SKILL_CATEGORIES } from '@/lib/skills';
+import { cn } from '@/lib/utils';
+import type { Skill, SkillCategory } from '@/lib/types';
+
+interface SkillCategoryManagerProps {
+  categories: SkillCategory[];
+  // Used to show how many skills each category holds
+  skills: Skill[];
+  // Categories with a mutation waiting on the server
+  pendingIds: ReadonlySet<string>;
+  onCreateCategory: (name: string) => Promise<void>;
+  onRenameCategory: (id: string, name: string) => Promise<void>;
+  // Given every category id, first to last
+  onReorderCategories: (ids: string[]) => Promise<void>;
+}
+
+const hasCategoryNamed = (categories: SkillCategory[], name: string, exceptId?: string) =>
+  categories.some((category) => category._id !== exceptId && category.name.toLowerCase() === name.toLowerCase());
+
+// Creates, renames and reorders the categories skills are grouped under
+export function SkillCategoryManager({
+  categories,
+  skills,
+  pendingIds,
+  onCreateCategory,
+  onRenameCategory,
+  onReorderCategories,
+}: SkillCategoryManagerProps) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const reorder = useDragReorder({
+    ids: categories.map((category) => category._id),
+    disabled: editingId !== null,
+    onReorder: async (ids) => {
+      try {
+        await onReorderCategories(ids);
+      } catch (err) {
+        notify.error(err, 'Failed to save the new category order');
+      }
+    },
+  });
+
+  const create = async (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (hasCategoryNamed(categories, trimmed)) {
+      notify.error(null, `There's already a category named "${trimmed}"`);
+      return;
+    }
+    setNewName('');
+    try {
+      await onCreateCategory(trimmed);
+    } catch (err) {
+      notify.error(err, `Failed to create category "${trimmed}"`);
+    }
+  };
+
+  const startRename = (category: SkillCategory) => {
+    setEditingId(category._id);
+    setEditingName(category.name);
+  };
+
+  const saveRename = async (category: SkillCategory) => {
+    const trimmed = editingName.trim();
+    setEditingId(null);
+    if (!trimmed || trimmed === category.name) return;
+    if (hasCategoryNamed(categories, trimmed, category._id)) {
+      notify.error(null, `There's already a category named "${trimmed}"`);
+      return;
+    }
+    try {
+      await onRenameCategory(category._id, trimmed);
+    } catch (err) {
+      notify.error(err, `Failed to rename category "${category.name}"`);
+    }
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, category: SkillCategory) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      saveRename(category);
+    } else if (e.key === 'Escape') {
+      // Keep the dialog open; only cancel the rename
+      e.preventDefault();
+      e.stopPropagation();
+      setEditingId(null);
+    }
+  };
+
+  const suggestions = SUGGESTED_SKILL_CATEGORIES.filter((name) => !hasCategoryNamed(categories, name));
+
+  return (
+    <div className="space-y-4">
+      {categories.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No categories yet. Skills are listed as uncategorized.</p>
+      ) : (
+        <ul className="space-y-1">
+          {categories.map((category) => {
+            const skillCount = skills.filter((skill) => skill.categoryId === category._id).length;
+            const isPending = pendingIds.has(category._id);
+            return (
+              <li
+                key={category._id}
+                {...reorder.getItemProps(category._id)}
+                aria-busy={isPending}
+                className={cn(
+                  'flex items-center gap-2 rounded-md border border-input px-2 py-1.5',
+                  (isPending || reorder.draggingId === category._id) && 'opacity-50',
+                  reorder.overId === category._id && reorder.draggingId !== category._id && 'ring-2 ring-primary',
+                )}
+              >
+                <ReorderHandle
+                  label={category.name}
+                  disabledReason="Finish renaming first"
+                  {...reorder.getHandleProps(category._id)}
+                />
+                {editingId === category._id ? (
+                  <>
+                    <Input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => handleRenameKeyDown(e, category)}
+                      aria-label={`New name for ${category.name}`}
+                      maxLength={50}
+                      className="h-8 flex-1"
+                      autoFocus
+                    />
+                    <Button type="button" variant="ghost" size="icon" className="size-8" aria-label="Save name" onClick={() => saveRename(category)}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" className="size-8" aria-label="Cancel rename" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 truncate text-sm font-medium">{category.name}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {skillCount} skill{skillCount !== 1 ? 's' : ''}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      aria-label={`Rename ${category.name}`}
+                      disabled={isPending}
+                      onClick={() => startRename(category)}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          create(newName);
+        }}
+      >
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New category, e.g. Languages"
+          aria-label="New category name"
+          maxLength={50}
+        />
+        <Button type="submit" variant="outline" disabled={!newName.trim()}>
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </form>
+
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+          Suggestions:
+          {suggestions.map((name) => (
+            <Button key={name} type="button" variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => create(name)}>
+              {name}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
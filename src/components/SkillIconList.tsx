@@ -0,0 +1,35 @@
+import type { Skill } from '@/lib/types';
+
+interface SkillIconListProps {
+  skills: Skill[];
+  // Icons shown before collapsing the rest into "+N"
+  max?: number;
+}
+
+// Compact row of skill icons, falling back to the skill name when there's no image
+export function SkillIconList({ skills, max = 5 }: SkillIconListProps) {
+  if (skills.length === 0) {
+    return <span className="text-sm text-gray-400">—</span>;
+  }
+
+  const hidden = skills.slice(max);
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {skills.slice(0, max).map((skill) =>
+        skill.image ? (
+          <img key={skill._id} src={skill.image} alt={skill.name} title={skill.name} className="h-5 w-5 object-contain" />
+        ) : (
+          <span key={skill._id} className="rounded bg-gray-100 px-1.5 text-xs dark:bg-gray-800">
+            {skill.name}
+          </span>
+        ),
+      )}
+      {hidden.length > 0 && (
+        <span className="text-xs text-gray-500" title={hidden.map((skill) => skill.name).join(', ')}>
+          +{hidden.length}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { searchSkillIcons } from '@/lib/skillIcons';
+import { cn } from '@/lib/utils';
+import type { SimpleIcon } from 'simple-icons';
+
+interface SkillIconPickerProps {
+  // Slug of the picked icon, if the current image came from the library
+  value: string | null;
+  onSelect: (icon: SimpleIcon) => void;
+  // Pre-fills the search, e.g. with the skill name
+  initialSearch?: string;
+}
+
+// Searchable grid of the bundled technology logos
+export function SkillIconPicker({ value, onSelect, initialSearch = '' }: SkillIconPickerProps) {
+  const [search, setSearch] = useState(initialSearch);
+  const icons = searchSkillIcons(search);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+        <Input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search icons, e.g. TypeScript"
+          aria-label="Search icons"
+          className="pl-9"
+        />
+      </div>
+      {icons.length === 0 ? (
+        <p className="py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+          No bundled icon matches. Upload a file or enter a URL below.
+        </p>
+      ) : (
+        <div className="grid max-h-48 grid-cols-6 gap-1.5 overflow-y-auto p-0.5" role="listbox" aria-label="Icons">
+          {icons.map((icon) => (
+            <button
+              key={icon.slug}
+              type="button"
+              role="option"
+              aria-selected={value === icon.slug}
+              title={icon.title}
+              onClick={() => onSelect(icon)}
+              className={cn(
+                'flex aspect-square items-center justify-center rounded-md border bg-white p-2 transition-colors hover:border-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                value === icon.slug ? 'border-primary ring-2 ring-primary' : 'border-gray-200',
+              )}
+            >
+              <svg role="img" viewBox="0 0 24 24" className="h-6 w-6" aria-label={icon.title}>
+                <path d={icon.path} fill={`#${icon.hex}`} />
+              </svg>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
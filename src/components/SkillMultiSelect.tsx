@@ -0,0 +1,95 @@
+import { useId, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import type { Skill } from '@/lib/types';
+
+interface SkillMultiSelectProps {
+  skills: Skill[];
+  // Selected skill ids, in the order they were picked
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+// Picks skills for a project: selected skills show as removable chips above a searchable list
+export function SkillMultiSelect({ skills, value, onChange }: SkillMultiSelectProps) {
+  const listId = useId();
+  const [search, setSearch] = useState('');
+
+  const skillsById = new Map(skills.map((skill) => [skill._id, skill]));
+  // Ids of skills deleted since the project was saved are dropped quietly
+  const selected = value.map((id) => skillsById.get(id)).filter((skill): skill is Skill => skill !== undefined);
+  const matching = skills.filter((skill) => skill.name.toLowerCase().includes(search.trim().toLowerCase()));
+
+  const toggle = (id: string) => {
+    onChange(value.includes(id) ? value.filter((selectedId) => selectedId !== id) : [...value, id]);
+  };
+
+  if (skills.length === 0) {
+    return <p className="text-sm text-gray-500">Add skills first to tag this project with its tech stack.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {selected.map((skill) => (
+            <span
+              key={skill._id}
+              className="inline-flex items-center gap-1 rounded-md border border-input px-2 py-0.5 text-xs"
+            >
+              {skill.image && <img src={skill.image} alt="" className="h-3.5 w-3.5 object-contain" />}
+              {skill.name}
+              <button
+                type="button"
+                onClick={() => toggle(skill._id)}
+                aria-label={`Remove ${skill.name}`}
+                className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <Input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search skills"
+        aria-controls={listId}
+      />
+
+      <ul id={listId} role="listbox" aria-multiselectable className="max-h-40 overflow-y-auto rounded-md border border-input p-1">
+        {matching.length === 0 && <li className="px-2 py-1.5 text-sm text-gray-500">No skills match "{search}"</li>}
+        {matching.map((skill) => {
+          const isSelected = value.includes(skill._id);
+          return (
+            <li
+              key={skill._id}
+              role="option"
+              aria-selected={isSelected}
+              tabIndex={0}
+              onClick={() => toggle(skill._id)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  toggle(skill._id);
+                }
+              }}
+              className={cn(
+                'flex cursor-pointer items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-accent focus-visible:bg-accent focus-visible:outline-none',
+                isSelected && 'font-medium',
+              )}
+            >
+              <Check className={cn('h-4 w-4', !isSelected && 'invisible')} />
+              {skill.image && <img src={skill.image} alt="" className="h-4 w-4 object-contain" />}
+              {skill.name}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
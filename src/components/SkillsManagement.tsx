@@ -1,48 +1,137 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import { Link, useMatch, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Plus, Edit, Trash2 } from 'lucide-react';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ReorderHandle } from '@/components/ReorderHandle';
+import { SkillCategoryManager } from '@/components/SkillCategoryManager';
+import { SkillIconPicker } from '@/components/SkillIconPicker';
+import { useDragReorder } from '@/hooks/useDragReorder';
+import { notify } from '@/lib/notify';
+import { SKILL_LEVEL_LABELS, describeSkillExperience, groupSkillsByCategory, type SkillGroup } from '@/lib/skills';
+import { cn } from '@/lib/utils';
+import { Plus, Edit, Trash2, Tags } from 'lucide-react';
 import { createPreviewUrl, revokePreviewUrl } from '@/lib/upload';
+import { skillIconToFile } from '@/lib/skillIcons';
+import type { Project, Skill, SkillCategory, SkillInput, SkillLevel } from '@/lib/types';
+import type { SimpleIcon } from 'simple-icons';
 
-interface Skill {
-  _id: string;
-  name: string;
-  image: string;
-}
+const SELECT_CLASS_NAME =
+  'h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+const MAX_YEARS_OF_EXPERIENCE = 60;
+
+const EMPTY_FORM = {
+  name: '',
+  image: '',
+  categoryId: '',
+  level: '',
+  yearsOfExperience: '',
+};
 
 interface SkillsManagementProps {
   skills: Skill[];
-  onAddSkill: (skill: Omit<Skill, '_id'> | FormData) => Promise<void>;
-  onUpdateSkill: (id: string, skill: Omit<Skill, '_id'> | FormData) => Promise<void>;
-  onDeleteSkill: (id: string) => Promise<void>;
+  categories: SkillCategory[];
+  // Every project, to show where each skill is used
+  projects: Project[];
+  // Skills with a mutation waiting on the server
+  pendingIds: ReadonlySet<string>;
+  // Categories with a mutation waiting on the server
+  categoryPendingIds: ReadonlySet<string>;
+  onAddSkill: (skill: SkillInput, imageFile?: File | null) => Promise<void>;
+  onUpdateSkill: (id: string, skill: SkillInput, imageFile?: File | null) => Promise<void>;
+  // Saves a new portfolio order, given every skill id first to last
+  onReorderSkills: (ids: string[]) => Promise<void>;
+  // Hides the skill and offers an undo window before the delete is sent
+  onDeleteSkill: (skill: Skill) => void;
+  onCreateCategory: (name: string) => Promise<void>;
+  onRenameCategory: (id: string, name: string) => Promise<void>;
+  onReorderCategories: (ids: string[]) => Promise<void>;
 }
 
-export function SkillsManagement({ skills, onAddSkill, onUpdateSkill, onDeleteSkill }: SkillsManagementProps) {
-  const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [editingSkill, setEditingSkill] = useState<Skill | null>(null);
+export function SkillsManagement({
+  skills,
+  categories,
+  projects,
+  pendingIds,
+  categoryPendingIds,
+  onAddSkill,
+  onUpdateSkill,
+  onReorderSkills,
+  onDeleteSkill,
+  onCreateCategory,
+  onRenameCategory,
+  onReorderCategories,
+}: SkillsManagementProps) {
+  const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   
-  const [formData, setFormData] = useState({
-    name: '',
-    image: ''
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
   
+  const [deleteTarget, setDeleteTarget] = useState<Skill | null>(null);
+
+  const projectsBySkill = useMemo(() => {
+    const bySkill = new Map<string, Project[]>();
+    for (const project of projects) {
+      for (const skillId of project.skillIds) {
+        bySkill.set(skillId, [...(bySkill.get(skillId) ?? []), project]);
+      }
+    }
+    return bySkill;
+  }, [projects]);
+
+  const groups = useMemo(() => groupSkillsByCategory(skills, categories), [skills, categories]);
+
+  // Skills are reordered within their group; the saved order follows the grouped layout
+  const handleReorderGroup = async (groupKey: string, ids: string[]) => {
+    const order = groups.flatMap((group) => (group.key === groupKey ? ids : group.skills.map((skill) => skill._id)));
+    try {
+      await onReorderSkills(order);
+    } catch (err) {
+      notify.error(err, 'Failed to save the new skill order');
+    }
+  };
+
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string>('');
+  // Slug of the library icon behind `imageFile`, if one was picked
+  const [iconSlug, setIconSlug] = useState<string | null>(null);
 
-  const resetForm = () => {
+  // The dialog is driven by the route: /skills/new or /skills/:id/edit
+  const editMatch = useMatch('/skills/:id/edit');
+  const isCreating = useMatch('/skills/new') !== null;
+  const isManagingCategories = useMatch('/skills/categories') !== null;
+  const editingSkill = skills.find((skill) => skill._id === editMatch?.params.id) ?? null;
+  const isDialogOpen = isCreating || editingSkill !== null;
+
+  // Fill the form whenever the dialog switches to a different record (including deep links)
+  const dialogKey = editingSkill ? editingSkill._id : isCreating ? 'new' : null;
+  const [formKey, setFormKey] = useState<string | null>(null);
+  if (dialogKey !== formKey) {
+    setFormKey(dialogKey);
+    setError('');
+    setImageFile(null);
+    setIconSlug(null);
     setFormData({
-      name: '',
-      image: ''
+      name: editingSkill?.name ?? '',
+      image: editingSkill?.image ?? '',
+      categoryId: editingSkill?.categoryId ?? '',
+      level: editingSkill?.level ?? '',
+      yearsOfExperience: editingSkill?.yearsOfExperience?.toString() ?? '',
     });
-    setEditingSkill(null);
+    setImagePreview(editingSkill?.image ?? '');
+  }
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
     setError('');
     setImageFile(null);
+    setIconSlug(null);
     // Clean up preview URL if it's a blob URL
     if (imagePreview && imagePreview.startsWith('blob:')) {
       revokePreviewUrl(imagePreview);
@@ -51,23 +140,12 @@ export function SkillsManagement({ skills, onAddSkill, onUpdateSkill, onDeleteSk
   };
 
   const handleOpenDialog = (skill?: Skill) => {
-    if (skill) {
-      setEditingSkill(skill);
-      setFormData({
-        name: skill.name,
-        image: skill.image
-      });
-      setImagePreview(skill.image);
-      setImageFile(null);
-    } else {
-      resetForm();
-    }
-    setIsDialogOpen(true);
+    navigate(skill ? `/skills/${skill._id}/edit` : '/skills/new');
   };
 
   const handleCloseDialog = () => {
-    setIsDialogOpen(false);
     resetForm();
+    navigate('/skills');
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -83,7 +161,20 @@ export function SkillsManagement({ skills, onAddSkill, onUpdateSkill, onDeleteSk
       setImagePreview(previewUrl);
       // Clear the URL field when file is selected
       setFormData({ ...formData, image: '' });
+      setIconSlug(null);
+    }
+  };
+
+  // Library icons go through the same upload as a picked file
+  const handleIconSelect = (icon: SimpleIcon) => {
+    if (imagePreview && imagePreview.startsWith('blob:')) {
+      revokePreviewUrl(imagePreview);
     }
+    const file = skillIconToFile(icon);
+    setImageFile(file);
+    setImagePreview(createPreviewUrl(file));
+    setIconSlug(icon.slug);
+    setFormData({ ...formData, name: formData.name || icon.title, image: '' });
   };
 
   const handleUrlChange = (url: string) => {
@@ -94,6 +185,7 @@ export function SkillsManagement({ skills, onAddSkill, onUpdateSkill, onDeleteSk
     }
     setImagePreview(url);
     setImageFile(null);
+    setIconSlug(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -104,49 +196,37 @@ export function SkillsManagement({ skills, onAddSkill, onUpdateSkill, onDeleteSk
       return;
     }
 
+    const years = formData.yearsOfExperience.trim() === '' ? null : Number(formData.yearsOfExperience);
+    if (years !== null && (!Number.isFinite(years) || years < 0 || years > MAX_YEARS_OF_EXPERIENCE)) {
+      setError(`Years of experience must be between 0 and ${MAX_YEARS_OF_EXPERIENCE}`);
+      return;
+    }
+
     setLoading(true);
     setError('');
 
     try {
-      // Create FormData and include all fields
-      const formDataToSend = new FormData();
-      formDataToSend.append('name', formData.name);
-      
-      // If a file is selected, append it as binary data
-      if (imageFile) {
-        formDataToSend.append('image', imageFile);
-      } else if (formData.image) {
-        // If URL is provided instead of file
-        formDataToSend.append('imageUrl', formData.image);
-      }
-
+      const skill: SkillInput = {
+        name: formData.name,
+        image: formData.image,
+        categoryId: formData.categoryId || null,
+        level: (formData.level || null) as SkillLevel | null,
+        yearsOfExperience: years,
+      };
       if (editingSkill) {
-        await onUpdateSkill(editingSkill._id, formDataToSend);
+        await onUpdateSkill(editingSkill._id, skill, imageFile);
       } else {
-        await onAddSkill(formDataToSend);
+        await onAddSkill(skill, imageFile);
       }
+      notify.success(editingSkill ? 'Skill updated' : 'Skill added');
       handleCloseDialog();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Operation failed');
+      notify.error(err, editingSkill ? 'Failed to update skill' : 'Failed to create skill');
     } finally {
       setLoading(false);
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this skill?')) {
-      return;
-    }
-
-    setLoading(true);
-    try {
-      await onDeleteSkill(id);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Delete failed');
-    } finally {
-      setLoading(false);
-    }
-  };
 
   return (
     <div className="space-y-6">
@@ -158,110 +238,196 @@ export function SkillsManagement({ skills, onAddSkill, onUpdateSkill, onDeleteSk
           </p>
         </div>
         
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button className='text-white' onClick={() => handleOpenDialog()}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Skill
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[425px] text-white">
-            <DialogHeader>
-              <DialogTitle>
-                {editingSkill ? 'Edit Skill' : 'Add New Skill'}
-              </DialogTitle>
-              <DialogDescription>
-                {editingSkill ? 'Update the skill details below.' : 'Fill in the details to create a new skill.'}
-              </DialogDescription>
-            </DialogHeader>
+        <div className="flex gap-2">
+          <Dialog open={isManagingCategories} onOpenChange={(open) => navigate(open ? '/skills/categories' : '/skills')}>
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <Tags className="mr-2 h-4 w-4" />
+                Categories
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[480px] text-white">
+              <DialogHeader>
+                <DialogTitle>Skill Categories</DialogTitle>
+                <DialogDescription>
+                  Skills are grouped under these headings, in this order.
+                </DialogDescription>
+              </DialogHeader>
+              <SkillCategoryManager
+                categories={categories}
+                skills={skills}
+                pendingIds={categoryPendingIds}
+                onCreateCategory={onCreateCategory}
+                onRenameCategory={onRenameCategory}
+                onReorderCategories={onReorderCategories}
+              />
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={isDialogOpen} onOpenChange={(open) => !open && handleCloseDialog()}>
+            <DialogTrigger asChild>
+              <Button className='text-white' onClick={() => handleOpenDialog()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Skill
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto text-white">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingSkill ? 'Edit Skill' : 'Add New Skill'}
+                </DialogTitle>
+                <DialogDescription>
+                  {editingSkill ? 'Update the skill details below.' : 'Fill in the details to create a new skill.'}
+                </DialogDescription>
+              </DialogHeader>
             
-            <form onSubmit={handleSubmit}>
-              <div className="space-y-4 py-4">
-                {error && (
-                  <Alert variant="destructive">
-                    <AlertDescription>{error}</AlertDescription>
-                  </Alert>
-                )}
-                
-                <div className="space-y-2">
-                  <Label htmlFor="name">Skill Name *</Label>
-                  <Input
-                    id="name"
-                    value={formData.name}
-                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                    placeholder="e.g., React, Node.js, Python"
-                    required
-                  />
-                </div>
+              <form onSubmit={handleSubmit}>
+                <div className="space-y-4 py-4">
+                  {error && (
+                    <Alert variant="destructive">
+                      <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                  )}
                 
-                <div className="space-y-2">
-                  <Label htmlFor="image">Icon/Image</Label>
-                  <div className="space-y-3">
-                    {/* File Upload Option */}
-                    <div>
-                      <Label htmlFor="imageFile" className="text-sm text-gray-600 dark:text-gray-400">
-                        Upload Image File
-                      </Label>
-                      <Input
-                        id="imageFile"
-                        type="file"
-                        accept="image/*"
-                        onChange={handleFileChange}
-                        className="mt-1"
-                      />
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Skill Name *</Label>
+                    <Input
+                      id="name"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      placeholder="e.g., React, Node.js, Python"
+                      required
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="category">Category</Label>
+                    <select
+                      id="category"
+                      value={formData.categoryId}
+                      onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
+                      className={SELECT_CLASS_NAME}
+                    >
+                      <option value="">Uncategorized</option>
+                      {categories.map((category) => (
+                        <option key={category._id} value={category._id}>
+                          {category.name}
+                        </option>
+                      ))}
+                    </select>
+                    {categories.length === 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        <Link to="/skills/categories" className="text-blue-600 hover:underline dark:text-blue-400">
+                          Create categories
+                        </Link>{' '}
+                        to group your skills.
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="level">Proficiency</Label>
+                      <select
+                        id="level"
+                        value={formData.level}
+                        onChange={(e) => setFormData({ ...formData, level: e.target.value })}
+                        className={SELECT_CLASS_NAME}
+                      >
+                        <option value="">Not set</option>
+                        {(Object.keys(SKILL_LEVEL_LABELS) as SkillLevel[]).map((level) => (
+                          <option key={level} value={level}>
+                            {SKILL_LEVEL_LABELS[level]}
+                          </option>
+                        ))}
+                      </select>
                     </div>
-                    
-                    {/* URL Option */}
-                    <div>
-                      <Label htmlFor="imageUrl" className="text-sm text-gray-600 dark:text-gray-400">
-                        Or Enter Image URL
-                      </Label>
+                    <div className="space-y-2">
+                      <Label htmlFor="yearsOfExperience">Years of experience</Label>
                       <Input
-                        id="imageUrl"
-                        value={formData.image}
-                        onChange={(e) => handleUrlChange(e.target.value)}
-                        placeholder="https://example.com/icon.png"
-                        className="mt-1"
+                        id="yearsOfExperience"
+                        type="number"
+                        min={0}
+                        max={MAX_YEARS_OF_EXPERIENCE}
+                        step={0.5}
+                        value={formData.yearsOfExperience}
+                        onChange={(e) => setFormData({ ...formData, yearsOfExperience: e.target.value })}
+                        placeholder="e.g., 3"
                       />
                     </div>
+                  </div>
+                
+                  <div className="space-y-2">
+                    <Label htmlFor="image">Icon/Image</Label>
+                    <div className="space-y-3">
+                      {/* Icon Library */}
+                      <SkillIconPicker
+                        key={formKey ?? ''}
+                        value={iconSlug}
+                        onSelect={handleIconSelect}
+                        initialSearch={editingSkill?.name}
+                      />
+
+                      {/* File Upload Option */}
+                      <div>
+                        <Label htmlFor="imageFile" className="text-sm text-gray-600 dark:text-gray-400">
+                          Or Upload a Custom Image
+                        </Label>
+                        <Input
+                          id="imageFile"
+                          type="file"
+                          accept="image/*"
+                          onChange={handleFileChange}
+                          className="mt-1"
+                        />
+                      </div>
                     
-                    {/* Preview */}
-                    {imagePreview && (
-                      <div className="mt-2">
-                        <Label className="text-sm text-gray-600 dark:text-gray-400">Preview</Label>
-                        <div className="mt-1 border rounded-md p-2 bg-gray-50 dark:bg-gray-800 flex justify-center">
-                          <img
-                            src={imagePreview}
-                            alt="Icon preview"
-                            className="h-16 w-16 object-contain rounded"
-                            onError={() => setImagePreview('')}
-                          />
-                        </div>
+                      {/* URL Option */}
+                      <div>
+                        <Label htmlFor="imageUrl" className="text-sm text-gray-600 dark:text-gray-400">
+                          Or Enter Image URL
+                        </Label>
+                        <Input
+                          id="imageUrl"
+                          value={formData.image}
+                          onChange={(e) => handleUrlChange(e.target.value)}
+                          placeholder="https://example.com/icon.png"
+                          className="mt-1"
+                        />
                       </div>
-                    )}
+                    
+                      {/* Preview */}
+                      {imagePreview && (
+                        <div className="mt-2">
+                          <Label className="text-sm text-gray-600 dark:text-gray-400">Preview</Label>
+                          <div className="mt-1 border rounded-md p-2 bg-gray-50 dark:bg-gray-800 flex justify-center">
+                            <img
+                              src={imagePreview}
+                              alt="Icon preview"
+                              className="h-16 w-16 object-contain rounded"
+                              onError={() => setImagePreview('')}
+                            />
+                          </div>
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
               
-              <DialogFooter>
-                <Button type="button" variant="outline" onClick={handleCloseDialog}>
-                  Cancel
-                </Button>
-                <Button className='text-white' type="submit" disabled={loading}>
-                  {loading ? 'Saving...' : (editingSkill ? 'Update' : 'Add')} Skill
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={handleCloseDialog}>
+                    Cancel
+                  </Button>
+                  <Button className='text-white' type="submit" disabled={loading}>
+                    {loading ? 'Saving...' : (editingSkill ? 'Update' : 'Add')} Skill
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
-      {error && (
-        <Alert variant="destructive">
-          <AlertDescription>{error}</AlertDescription>
-        </Alert>
-      )}
-
       <Card>
         <CardHeader>
           <CardTitle>All Skills</CardTitle>
@@ -275,52 +441,150 @@ export function SkillsManagement({ skills, onAddSkill, onUpdateSkill, onDeleteSk
               <p className="text-gray-500 dark:text-gray-400">No skills found. Add your first skill!</p>
             </div>
           ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-              {skills.map((skill) => (
-                <Card key={skill._id} className="relative group">
-                  <CardContent className="p-4">
-                    <div className="flex items-center space-x-3">
-                      {skill.image && (
-                        <img
-                          src={skill.image}
-                          alt={skill.name}
-                          className="w-8 h-8 object-contain"
-                          onError={(e) => {
-                            e.currentTarget.style.display = 'none';
-                          }}
-                        />
-                      )}
-                      <div className="flex-1 min-w-0">
-                        <h3 className="font-medium text-gray-900 dark:text-white truncate">
-                          {skill.name}
-                        </h3>
-                      </div>
-                    </div>
-                    
-                    <div className="flex justify-end space-x-2 mt-3 opacity-0 group-hover:opacity-100 transition-opacity">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleOpenDialog(skill)}
-                      >
-                        <Edit className="h-3 w-3" />
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDelete(skill._id)}
-                        disabled={loading}
-                      >
-                        <Trash2 className="h-3 w-3" />
-                      </Button>
-                    </div>
-                  </CardContent>
-                </Card>
+            <div className="space-y-6">
+              {groups.map((group) => (
+                <SkillGroupSection
+                  key={group.key}
+                  group={group}
+                  projectsBySkill={projectsBySkill}
+                  pendingIds={pendingIds}
+                  onReorder={(ids) => handleReorderGroup(group.key, ids)}
+                  onEdit={handleOpenDialog}
+                  onDelete={setDeleteTarget}
+                />
               ))}
             </div>
           )}
         </CardContent>
       </Card>
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title="Delete skill?"
+        description={
+          <>
+            <span className="font-semibold">{deleteTarget?.name}</span> will be removed from your portfolio
+            {deleteTarget && projectsBySkill.has(deleteTarget._id)
+              ? ` and untagged from ${projectsBySkill.get(deleteTarget._id)?.length} project(s).`
+              : '.'}{' '}
+            You can undo this for a few seconds afterwards.
+          </>
+        }
+        confirmLabel="Delete skill"
+        onConfirm={() => deleteTarget && onDeleteSkill(deleteTarget)}
+      />
     </div>
   );
 }
+
+interface SkillGroupSectionProps {
+  group: SkillGroup;
+  projectsBySkill: Map<string, Project[]>;
+  pendingIds: ReadonlySet<string>;
+  // Given the group's skill ids, first to last
+  onReorder: (ids: string[]) => void;
+  onEdit: (skill: Skill) => void;
+  onDelete: (skill: Skill) => void;
+}
+
+// One category heading and its skill cards, reorderable within the group
+function SkillGroupSection({ group, projectsBySkill, pendingIds, onReorder, onEdit, onDelete }: SkillGroupSectionProps) {
+  const reorder = useDragReorder({
+    ids: group.skills.map((skill) => skill._id),
+    onReorder,
+  });
+
+  return (
+    <section aria-label={group.name}>
+      <h2 className="mb-3 text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+        {group.name}
+        <span className="ml-2 font-normal normal-case tracking-normal">{group.skills.length}</span>
+      </h2>
+      {group.skills.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No skills in this category yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+          {group.skills.map((skill) => (
+            <Card
+              key={skill._id}
+              {...reorder.getItemProps(skill._id)}
+              aria-busy={pendingIds.has(skill._id)}
+              className={cn(
+                'relative group',
+                (pendingIds.has(skill._id) || reorder.draggingId === skill._id) && 'opacity-50',
+                reorder.overId === skill._id && reorder.draggingId !== skill._id && 'ring-2 ring-primary',
+              )}
+            >
+              <CardContent className="p-4">
+                <div className="flex items-center space-x-3">
+                  <ReorderHandle label={skill.name} {...reorder.getHandleProps(skill._id)} className="-ml-2" />
+                  {skill.image && (
+                    <img
+                      src={skill.image}
+                      alt={skill.name}
+                      className="w-8 h-8 object-contain"
+                      onError={(e) => {
+                        e.currentTarget.style.display = 'none';
+                      }}
+                    />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-medium text-gray-900 dark:text-white truncate">
+                      {skill.name}
+                    </h3>
+                    {describeSkillExperience(skill) && (
+                      <p className="text-xs text-gray-600 dark:text-gray-300">{describeSkillExperience(skill)}</p>
+                    )}
+                    <SkillUsage projects={projectsBySkill.get(skill._id) ?? []} skillId={skill._id} />
+                  </div>
+                </div>
+                
+                <div className="flex justify-end space-x-2 mt-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onEdit(skill)}
+                    disabled={pendingIds.has(skill._id)}
+                  >
+                    <Edit className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onDelete(skill)}
+                    disabled={pendingIds.has(skill._id)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+interface SkillUsageProps {
+  skillId: string;
+  projects: Project[];
+}
+
+// Which projects list the skill in their tech stack, linking to the filtered projects page
+function SkillUsage({ skillId, projects }: SkillUsageProps) {
+  if (projects.length === 0) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">Not used in any project</p>;
+  }
+
+  return (
+    <Link
+      to={{ pathname: '/projects', search: `?skill=${encodeURIComponent(skillId)}` }}
+      title={projects.map((project) => project.name).join(', ')}
+      className="text-xs text-blue-600 hover:underline dark:text-blue-400"
+    >
+      Used in {projects.length} project{projects.length !== 1 ? 's' : ''}
+    </Link>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useLocation, useMatch, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -6,49 +7,56 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { Pagination } from '@/components/Pagination';
+import { notify } from '@/lib/notify';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Edit, Trash2, Copy, ExternalLink, BarChart3, ChevronLeft, ChevronRight } from 'lucide-react';
-
-interface ShortenedUrl {
-  _id: string;
-  shortenUrl: string;
-  fullUrl: string;
-  clicks: number;
-  userId?: string;
-  isDeleted?: boolean;
-  createdAt?: string;
-}
-
-interface PaginationInfo {
-  currentPage: number;
-  totalPages: number;
-  totalItems: number;
-  hasNext: boolean;
-  hasPrev: boolean;
-}
+import { Plus, Edit, Trash2, Copy, ExternalLink, BarChart3 } from 'lucide-react';
+import type { PaginationInfo, ShortenedUrl, UrlCreateInput, UrlUpdateInput } from '@/lib/types';
 
 interface UrlManagementProps {
   urls: ShortenedUrl[];
+  // URLs with a mutation waiting on the server
+  pendingIds: ReadonlySet<string>;
   pagination: PaginationInfo;
-  currentPage: number;
   onPageChange: (page: number) => void;
-  onAddUrl: (url: { fullUrl: string }) => Promise<void>;
-  onUpdateUrl: (id: string, url: { fullUrl: string; shortenUrl: string }) => Promise<void>;
-  onDeleteUrl: (id: string) => Promise<void>;
+  onAddUrl: (url: UrlCreateInput) => Promise<void>;
+  onUpdateUrl: (id: string, url: UrlUpdateInput) => Promise<void>;
+  // Hides the URL and offers an undo window before the delete is sent
+  onDeleteUrl: (url: ShortenedUrl) => void;
 }
 
-export function UrlManagement({ urls, pagination, currentPage, onPageChange, onAddUrl, onUpdateUrl, onDeleteUrl }: UrlManagementProps) {
-  const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [editingUrl, setEditingUrl] = useState<ShortenedUrl | null>(null);
+export function UrlManagement({ urls, pendingIds, pagination, onPageChange, onAddUrl, onUpdateUrl, onDeleteUrl }: UrlManagementProps) {
+  const navigate = useNavigate();
+  const { search } = useLocation();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [copySuccess, setCopySuccess] = useState('');
   
+  const [deleteTarget, setDeleteTarget] = useState<ShortenedUrl | null>(null);
+
   const [formData, setFormData] = useState({
     fullUrl: '',
     shortenUrl: ''
   });
 
+  // The dialog is driven by the route: /urls/new or /urls/:id/edit (keeping ?page=)
+  const editMatch = useMatch('/urls/:id/edit');
+  const isCreating = useMatch('/urls/new') !== null;
+  const editingUrl = urls.find((url) => url._id === editMatch?.params.id) ?? null;
+  const isDialogOpen = isCreating || editingUrl !== null;
+
+  // Fill the form whenever the dialog switches to a different record (including deep links)
+  const dialogKey = editingUrl ? editingUrl._id : isCreating ? 'new' : null;
+  const [formKey, setFormKey] = useState<string | null>(null);
+  if (dialogKey !== formKey) {
+    setFormKey(dialogKey);
+    setError('');
+    setFormData({
+      fullUrl: editingUrl?.fullUrl ?? '',
+      shortenUrl: editingUrl?.shortenUrl ?? ''
+    });
+  }
+
   // Helper function to format date/time
   const formatDateTime = (dateString?: string) => {
     if (!dateString) return 'N/A';
@@ -72,26 +80,16 @@ export function UrlManagement({ urls, pagination, currentPage, onPageChange, onA
       fullUrl: '',
       shortenUrl: ''
     });
-    setEditingUrl(null);
     setError('');
   };
 
   const handleOpenDialog = (url?: ShortenedUrl) => {
-    if (url) {
-      setEditingUrl(url);
-      setFormData({
-        fullUrl: url.fullUrl,
-        shortenUrl: url.shortenUrl
-      });
-    } else {
-      resetForm();
-    }
-    setIsDialogOpen(true);
+    navigate({ pathname: url ? `/urls/${url._id}/edit` : '/urls/new', search });
   };
 
   const handleCloseDialog = () => {
-    setIsDialogOpen(false);
     resetForm();
+    navigate({ pathname: '/urls', search });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -119,36 +117,22 @@ export function UrlManagement({ urls, pagination, currentPage, onPageChange, onA
       } else {
         await onAddUrl({ fullUrl: formData.fullUrl });
       }
+      notify.success(editingUrl ? 'URL updated' : 'URL shortened');
       handleCloseDialog();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Operation failed');
+      notify.error(err, editingUrl ? 'Failed to update URL' : 'Failed to create URL');
     } finally {
       setLoading(false);
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this URL?')) {
-      return;
-    }
-
-    setLoading(true);
-    try {
-      await onDeleteUrl(id);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Delete failed');
-    } finally {
-      setLoading(false);
-    }
-  };
 
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
-      setCopySuccess('Copied!');
-      setTimeout(() => setCopySuccess(''), 2000);
+      notify.success('Copied to clipboard', { description: text });
     } catch (err) {
-      console.error('Failed to copy text: ', err);
+      notify.error(err, 'Failed to copy to clipboard');
     }
   };
 
@@ -165,7 +149,7 @@ export function UrlManagement({ urls, pagination, currentPage, onPageChange, onA
           </p>
         </div>
         
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => !open && handleCloseDialog()}>
           <DialogTrigger asChild>
             <Button className='text-white' onClick={() => handleOpenDialog()}>
               <Plus className="mr-2 h-4 w-4 text-white" />
@@ -278,18 +262,6 @@ export function UrlManagement({ urls, pagination, currentPage, onPageChange, onA
         </Card>
       </div>
 
-      {error && (
-        <Alert variant="destructive">
-          <AlertDescription>{error}</AlertDescription>
-        </Alert>
-      )}
-
-      {copySuccess && (
-        <Alert>
-          <AlertDescription>{copySuccess}</AlertDescription>
-        </Alert>
-      )}
-
       <Card>
         <CardHeader>
           <CardTitle>All URLs</CardTitle>
@@ -320,7 +292,11 @@ export function UrlManagement({ urls, pagination, currentPage, onPageChange, onA
               </TableHeader>
               <TableBody>
                 {urls.map((url) => (
-                  <TableRow key={url._id}>
+                  <TableRow
+                    key={url._id}
+                    aria-busy={pendingIds.has(url._id)}
+                    className={pendingIds.has(url._id) ? 'opacity-50' : undefined}
+                  >
                     <TableCell>
                       <div className="flex items-center space-x-2">
                         <code className="text-sm bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded">
@@ -368,7 +344,7 @@ export function UrlManagement({ urls, pagination, currentPage, onPageChange, onA
                           variant="ghost"
                           size="sm"
                           onClick={() => handleOpenDialog(url)}
-                          disabled={url.isDeleted === true}
+                          disabled={pendingIds.has(url._id) || url.isDeleted === true}
                           className="h-8 w-8 p-0 hover:bg-gray-100 dark:hover:bg-gray-800"
                         >
                           <Edit className="h-3 w-3" />
@@ -376,8 +352,8 @@ export function UrlManagement({ urls, pagination, currentPage, onPageChange, onA
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => handleDelete(url._id)}
-                          disabled={loading || url.isDeleted === true}
+                          onClick={() => setDeleteTarget(url)}
+                          disabled={pendingIds.has(url._id) || url.isDeleted === true}
                           className="h-8 w-8 p-0 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-red-600"
                         >
                           <Trash2 className="h-3 w-3" />
@@ -390,64 +366,23 @@ export function UrlManagement({ urls, pagination, currentPage, onPageChange, onA
             </Table>
           )}
           
-          {/* Pagination Controls */}
-          {pagination.totalPages > 1 && (
-            <div className="flex items-center justify-between mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
-              <div className="text-sm text-gray-600 dark:text-gray-400">
-                Showing page {pagination.currentPage} of {pagination.totalPages} 
-                ({pagination.totalItems} total items)
-              </div>
-              
-              <div className="flex items-center space-x-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => onPageChange(currentPage - 1)}
-                  disabled={!pagination.hasPrev || loading}
-                >
-                  <ChevronLeft className="h-4 w-4" />
-                  Previous
-                </Button>
-                
-                <div className="flex items-center space-x-1">
-                  {/* Page numbers */}
-                  {Array.from({ length: Math.min(5, pagination.totalPages) }, (_, i) => {
-                    const pageNumber = Math.max(1, Math.min(
-                      pagination.totalPages - 4,
-                      Math.max(1, pagination.currentPage - 2)
-                    )) + i;
-                    
-                    if (pageNumber > pagination.totalPages) return null;
-                    
-                    return (
-                      <Button
-                        key={pageNumber}
-                        variant={pageNumber === pagination.currentPage ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => onPageChange(pageNumber)}
-                        disabled={loading}
-                        className="w-8 h-8 p-0"
-                      >
-                        {pageNumber}
-                      </Button>
-                    );
-                  })}
-                </div>
-                
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => onPageChange(currentPage + 1)}
-                  disabled={!pagination.hasNext || loading}
-                >
-                  Next
-                  <ChevronRight className="h-4 w-4" />
-                </Button>
-              </div>
-            </div>
-          )}
+          <Pagination pagination={pagination} onPageChange={onPageChange} disabled={loading} />
         </CardContent>
       </Card>
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title="Delete short URL?"
+        description={
+          <>
+            <code className="font-semibold">{deleteTarget?.shortenUrl}</code> will stop redirecting to{' '}
+            <span className="break-all">{deleteTarget?.fullUrl}</span>. You can undo this for a few seconds afterwards.
+          </>
+        }
+        confirmLabel="Delete URL"
+        onConfirm={() => deleteTarget && onDeleteUrl(deleteTarget)}
+      />
     </div>
   );
 }
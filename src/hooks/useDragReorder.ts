@@ -0,0 +1,84 @@
+import { useState } from 'react';
+
+interface DragReorderOptions {
+  // Ids in their current display order
+  ids: string[];
+  onReorder: (ids: string[]) => void;
+  disabled?: boolean;
+}
+
+// Returns `ids` with `id` moved to `toIndex`, or null when nothing would change
+const moveId = (ids: string[], id: string, toIndex: number) => {
+  const fromIndex = ids.indexOf(id);
+  if (fromIndex === -1 || toIndex < 0 || toIndex >= ids.length || fromIndex === toIndex) return null;
+  const next = [...ids];
+  next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, id);
+  return next;
+};
+
+/**
+ * Reordering for lists and grids: items can be dragged onto each other with the mouse,
+ * and a handle moves its item with the arrow keys (Home/End jump to either end).
+ * Built on native drag events, so rows only need the props returned for them.
+ */
+export function useDragReorder({ ids, onReorder, disabled = false }: DragReorderOptions) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+
+  const move = (id: string, toIndex: number) => {
+    const next = moveId(ids, id, toIndex);
+    if (next) onReorder(next);
+  };
+
+  const endDrag = () => {
+    setDraggingId(null);
+    setOverId(null);
+  };
+
+  const getItemProps = (id: string) => {
+    if (disabled) return {};
+    return {
+      draggable: true,
+      onDragStart: (e: React.DragEvent) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', id);
+        setDraggingId(id);
+      },
+      onDragOver: (e: React.DragEvent) => {
+        // Ignore files and text dragged in from elsewhere
+        if (!draggingId) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setOverId(id);
+      },
+      onDrop: (e: React.DragEvent) => {
+        if (!draggingId) return;
+        e.preventDefault();
+        move(draggingId, ids.indexOf(id));
+        endDrag();
+      },
+      onDragEnd: endDrag,
+    };
+  };
+
+  const getHandleProps = (id: string) => ({
+    disabled,
+    onKeyDown: (e: React.KeyboardEvent) => {
+      const index = ids.indexOf(id);
+      const targets: Record<string, number> = {
+        ArrowUp: index - 1,
+        ArrowLeft: index - 1,
+        ArrowDown: index + 1,
+        ArrowRight: index + 1,
+        Home: 0,
+        End: ids.length - 1,
+      };
+      if (!(e.key in targets)) return;
+      e.preventDefault();
+      move(id, targets[e.key]);
+    },
+  });
+
+  return { draggingId, overId, getItemProps, getHandleProps };
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery } from '@/hooks/useQuery';
+import { linksAPI, urlAPI } from '@/lib/api';
+import { queryKeys } from '@/lib/queryClient';
+import type { LinkHealth, Project } from '@/lib/types';
+
+// Links are re-checked this often while the dashboard stays open
+export const LINK_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+const INCLUDE_SHORT_URLS_KEY = 'linkCheck.includeShortUrls';
+const SHORT_URL_PAGE_SIZE = 100;
+// Safety net for the short URL crawl, in case the pagination never reports a last page
+const MAX_SHORT_URL_PAGES = 50;
+
+export interface LinkHealthReport {
+  checkedAt: number;
+  byUrl: Record<string, LinkHealth>;
+  // Where each checked URL is used, e.g. `My app (demo)`
+  usedBy: Record<string, string[]>;
+}
+
+const collectProjectLinks = (projects: Project[]) => {
+  const usedBy: Record<string, string[]> = {};
+  const add = (url: string, label: string) => {
+    if (!url) return;
+    (usedBy[url] ??= []).push(label);
+  };
+  for (const project of projects) {
+    add(project.demoLink, `${project.name} (demo)`);
+    add(project.sourceCodeLink, `${project.name} (source)`);
+  }
+  return usedBy;
+};
+
+// The URL list is paginated, so walk every page to check all short URL targets
+const collectShortUrlTargets = async (usedBy: Record<string, string[]>) => {
+  for (let page = 1; page <= MAX_SHORT_URL_PAGES; page++) {
+    const { data, pagination } = await urlAPI.getAll(page, SHORT_URL_PAGE_SIZE);
+    for (const url of data) {
+      if (url.isDeleted) continue;
+      (usedBy[url.fullUrl] ??= []).push(`Short URL /${url.shortenUrl}`);
+    }
+    if (!pagination.hasNext) break;
+  }
+};
+
+interface UseLinkHealthOptions {
+  projects: Project[];
+  enabled: boolean;
+}
+
+/**
+ * Checks every project link (and optionally every short URL target) through the
+ * backend link checker. Results are cached like any other query; a check runs on
+ * demand, when the last one is older than the interval, and on a timer while mounted.
+ */
+export function useLinkHealth({ projects, enabled }: UseLinkHealthOptions) {
+  const [includeShortUrls, setIncludeShortUrlsState] = useState(
+    () => localStorage.getItem(INCLUDE_SHORT_URLS_KEY) === 'true',
+  );
+
+  // Checks read the latest projects, even when started by the timer
+  const projectsRef = useRef(projects);
+  useEffect(() => {
+    projectsRef.current = projects;
+  }, [projects]);
+
+  const runCheck = async (): Promise<LinkHealthReport> => {
+    const usedBy = collectProjectLinks(projectsRef.current);
+    if (includeShortUrls) {
+      await collectShortUrlTargets(usedBy);
+    }
+
+    const urls = Object.keys(usedBy);
+    const results = urls.length > 0 ? await linksAPI.check(urls) : [];
+    return {
+      checkedAt: Date.now(),
+      byUrl: Object.fromEntries(results.map((result) => [result.url, result])),
+      usedBy,
+    };
+  };
+
+  const hasProjects = projects.length > 0;
+  const query = useQuery(queryKeys.linkHealth(includeShortUrls), runCheck, {
+    enabled: enabled && hasProjects,
+    staleTime: LINK_CHECK_INTERVAL_MS,
+  });
+
+  const { refetch } = query;
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(() => {
+      refetch().catch(() => undefined);
+    }, LINK_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [enabled, refetch]);
+
+  const setIncludeShortUrls = useCallback((include: boolean) => {
+    localStorage.setItem(INCLUDE_SHORT_URLS_KEY, String(include));
+    setIncludeShortUrlsState(include);
+  }, []);
+
+  return {
+    report: query.data,
+    error: query.error,
+    isChecking: query.isFetching,
+    check: refetch,
+    includeShortUrls,
+    setIncludeShortUrls,
+  };
+}
+
+export type LinkHealthStatus = ReturnType<typeof useLinkHealth>;
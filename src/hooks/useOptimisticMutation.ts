@@ -0,0 +1,52 @@
+import { useCallback, useState } from 'react';
+import { queryClient, type QueryKey } from '@/lib/queryClient';
+
+interface OptimisticMutation<T, R> {
+  // Queries the mutation changes; refetched once the server confirms
+  queryKey: QueryKey;
+  // Applied to each cached query under `queryKey` before the request is sent
+  update: (current: T) => T;
+  mutate: () => Promise<R>;
+}
+
+/**
+ * Runs mutations optimistically against the query cache, tracking which
+ * records are waiting on the server so their rows can show a pending state.
+ * If the request fails the cache is rolled back and the error is rethrown.
+ */
+export function useOptimisticMutation<T>() {
+  const [pendingIds, setPendingIds] = useState<ReadonlySet<string>>(new Set());
+
+  const setPending = useCallback((id: string, pending: boolean) => {
+    setPendingIds((current) => {
+      const next = new Set(current);
+      if (pending) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const run = useCallback(
+    async <R>(id: string, { queryKey, update, mutate }: OptimisticMutation<T, R>) => {
+      setPending(id, true);
+      const rollback = queryClient.applyOptimistic(queryKey, update);
+
+      try {
+        const result = await mutate();
+        await queryClient.invalidate(queryKey);
+        return result;
+      } catch (error) {
+        rollback();
+        throw error;
+      } finally {
+        setPending(id, false);
+      }
+    },
+    [setPending],
+  );
+
+  return { pendingIds, run };
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { DEFAULT_STALE_TIME, queryClient, type QueryKey } from '@/lib/queryClient';
+
+interface UseQueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+  // Keep showing the previous key's data while a new key loads (e.g. paging)
+  keepPreviousData?: boolean;
+  // Called when a fetch started by this hook fails
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Subscribe to a cached query, fetching it when there's no fresh data for `key`.
+ */
+export function useQuery<T>(key: QueryKey, fetcher: () => Promise<T>, options: UseQueryOptions = {}) {
+  const { enabled = true, staleTime = DEFAULT_STALE_TIME, keepPreviousData = false, onError } = options;
+  const hash = JSON.stringify(key);
+
+  // Keys are compared by value, so callers can pass inline arrays and fetchers
+  const keyRef = useRef(key);
+  const fetcherRef = useRef(fetcher);
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    keyRef.current = key;
+    fetcherRef.current = fetcher;
+    onErrorRef.current = onError;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => queryClient.subscribe(JSON.parse(hash), listener),
+    [hash],
+  );
+  const getSnapshot = useCallback(() => queryClient.getState<T>(JSON.parse(hash)), [hash]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!enabled) return;
+    queryClient.ensure(keyRef.current, () => fetcherRef.current(), staleTime).catch((error) => {
+      console.error(`Failed to load ${hash}:`, error);
+      onErrorRef.current?.(error);
+    });
+  }, [hash, enabled, staleTime]);
+
+  const previousData = useRef<T | undefined>(undefined);
+  useEffect(() => {
+    if (state.data !== undefined) {
+      previousData.current = state.data;
+    }
+  }, [state.data]);
+
+  const refetch = useCallback(() => queryClient.fetch(keyRef.current, () => fetcherRef.current()), []);
+
+  return {
+    data: state.data ?? (keepPreviousData ? previousData.current : undefined),
+    error: state.error,
+    status: state.status,
+    isLoading: state.status === 'loading',
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
@@ -0,0 +1,53 @@
+import { useCallback, useState } from 'react';
+import { DEFAULT_REPLY_TEMPLATES, type ReplyTemplate } from '@/lib/replyTemplates';
+
+const REPLY_TEMPLATES_KEY = 'messages.replyTemplates';
+
+const loadTemplates = (): ReplyTemplate[] => {
+  try {
+    const stored = localStorage.getItem(REPLY_TEMPLATES_KEY);
+    if (!stored) return DEFAULT_REPLY_TEMPLATES;
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? (parsed as ReplyTemplate[]) : DEFAULT_REPLY_TEMPLATES;
+  } catch {
+    return DEFAULT_REPLY_TEMPLATES;
+  }
+};
+
+/**
+ * Saved reply templates, kept in this browser's local storage. Saving a template
+ * with an existing name replaces it.
+ */
+export function useReplyTemplates() {
+  const [templates, setTemplates] = useState(loadTemplates);
+
+  const persist = useCallback((update: (current: ReplyTemplate[]) => ReplyTemplate[]) => {
+    setTemplates((current) => {
+      const next = update(current);
+      localStorage.setItem(REPLY_TEMPLATES_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const saveTemplate = useCallback(
+    (template: Omit<ReplyTemplate, 'id'>) => {
+      persist((current) => {
+        const existing = current.find((candidate) => candidate.name === template.name);
+        if (existing) {
+          return current.map((candidate) => (candidate === existing ? { ...existing, ...template } : candidate));
+        }
+        return [...current, { ...template, id: `template-${Date.now()}` }];
+      });
+    },
+    [persist],
+  );
+
+  const deleteTemplate = useCallback(
+    (id: string) => {
+      persist((current) => current.filter((template) => template.id !== id));
+    },
+    [persist],
+  );
+
+  return { templates, saveTemplate, deleteTemplate };
+}
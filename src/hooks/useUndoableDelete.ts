@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { notify } from '@/lib/notify';
+import { queryClient, type QueryKey } from '@/lib/queryClient';
+
+// How long the Undo button stays available before the DELETE is sent
+export const UNDO_WINDOW_MS = 5000;
+
+interface UndoableDelete {
+  // Queries refreshed once the server confirms the delete
+  queryKey: QueryKey;
+  // Sends the delete; `keepalive` is set when it's flushed as the page closes
+  mutate: (options: { keepalive: boolean }) => Promise<unknown>;
+  message: string;
+  errorMessage: string;
+  // Records hidden during the undo window, for deletes covering several at once; defaults to `id`
+  hideIds?: string[];
+}
+
+interface PendingDelete {
+  timer: ReturnType<typeof setTimeout>;
+  commit: (keepalive?: boolean) => Promise<void>;
+}
+
+/**
+ * Deletes with an undo window: the record is hidden straight away, and the
+ * request only goes out once the window passes without the user clicking Undo.
+ * Pending deletes are sent immediately if the page is closed or the screen unmounts.
+ */
+export function useUndoableDelete() {
+  const [hiddenIds, setHiddenIds] = useState<ReadonlySet<string>>(new Set());
+  const pendingRef = useRef(new Map<string, PendingDelete>());
+
+  const setHidden = useCallback((ids: string[], hidden: boolean) => {
+    setHiddenIds((current) => {
+      const next = new Set(current);
+      for (const id of ids) {
+        if (hidden) {
+          next.add(id);
+        } else {
+          next.delete(id);
+        }
+      }
+      return next;
+    });
+  }, []);
+
+  const remove = useCallback(
+    (id: string, { queryKey, mutate, message, errorMessage, hideIds = [id] }: UndoableDelete) => {
+      const pending = pendingRef.current;
+      if (pending.has(id)) return;
+
+      setHidden(hideIds, true);
+
+      const commit = async (keepalive = false) => {
+        pending.delete(id);
+        try {
+          await mutate({ keepalive });
+          await queryClient.invalidate(queryKey);
+        } catch (error) {
+          notify.error(error, errorMessage);
+        } finally {
+          setHidden(hideIds, false);
+        }
+      };
+
+      const timer = setTimeout(() => commit(), UNDO_WINDOW_MS);
+      pending.set(id, { timer, commit });
+
+      notify.undoable(message, {
+        id: `delete-${id}`,
+        duration: UNDO_WINDOW_MS,
+        onUndo: () => {
+          clearTimeout(timer);
+          pending.delete(id);
+          setHidden(hideIds, false);
+        },
+      });
+    },
+    [setHidden],
+  );
+
+  useEffect(() => {
+    const pending = pendingRef.current;
+    const flush = (keepalive: boolean) => {
+      pending.forEach(({ timer, commit }) => {
+        clearTimeout(timer);
+        commit(keepalive);
+      });
+    };
+
+    // Requests started during unload are cancelled unless they're sent with keepalive
+    const handlePageHide = () => flush(true);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      flush(false);
+    };
+  }, []);
+
+  return { hiddenIds, remove };
+}
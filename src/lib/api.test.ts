@@ -0,0 +1,306 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  linkCheckSerializer,
+  messageSerializer,
+  messagesAPI,
+  orderSerializer,
+  paginationSerializer,
+  projectSerializer,
+  projectsAPI,
+  skillSerializer,
+  skillsAPI,
+  urlAPI,
+  urlSerializer,
+} from '@/lib/api';
+import { DEFAULT_MESSAGE_QUERY } from '@/lib/messages';
+import {
+  contactMessageSchema,
+  linkCheckSchema,
+  messagePaginationSchema,
+  paginationSchema,
+  projectSchema,
+  shortenedUrlSchema,
+  skillSchema,
+} from '@/lib/schemas';
+import type { ProjectInput, SkillInput } from '@/lib/types';
+
+// Answers every request with `body` and `status`
+const stubFetch = (status: number, body: unknown) => {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body), { status })));
+};
+
+// Requests read the session token; tests run signed out
+beforeEach(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => undefined, removeItem: () => undefined });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('projectSerializer', () => {
+  const input: ProjectInput = {
+    name: 'Portfolio',
+    description: 'My site',
+    thumbnail: 'https://example.com/thumb.png',
+    demoLink: 'https://example.com',
+    sourceCodeLink: 'https://github.com/me/site',
+    status: 'draft',
+    featured: true,
+    skillIds: ['s1', 's2'],
+    gallery: [{ url: 'https://example.com/1.png', alt: 'Home page' }],
+  };
+
+  it('writes name and thumbnail as title and image', () => {
+    const body = projectSerializer.toRequest(input);
+    expect(body.get('title')).toBe('Portfolio');
+    expect(body.get('image')).toBe('https://example.com/thumb.png');
+    expect(body.has('name')).toBe(false);
+    expect(body.has('thumbnail')).toBe(false);
+    expect(JSON.parse(body.get('skills') as string)).toEqual(['s1', 's2']);
+    expect(JSON.parse(body.get('gallery') as string)).toEqual(input.gallery);
+  });
+
+  it('prefers an uploaded thumbnail over the URL', () => {
+    const file = new File(['png'], 'thumb.png', { type: 'image/png' });
+    const body = projectSerializer.toRequest(input, file);
+    expect(body.getAll('image')).toHaveLength(1);
+    expect(body.get('image')).toBeInstanceOf(File);
+  });
+
+  it('treats projects saved before statuses existed as published', () => {
+    const project = projectSerializer.fromResponse(projectSchema.parse({ _id: 'p1', name: 'Portfolio' }));
+    expect(project).toMatchObject({ status: 'published', featured: false });
+  });
+
+  it('reads back what it wrote', () => {
+    const project = projectSerializer.fromResponse(projectSchema.parse({ _id: 'p1', ...input, skills: input.skillIds, order: 2 }));
+    expect(project).toEqual({ _id: 'p1', ...input, order: 2, createdAt: undefined });
+  });
+
+  it('accepts skills populated or as bare ids', () => {
+    const project = projectSerializer.fromResponse(
+      projectSchema.parse({ _id: 'p1', name: 'Portfolio', skills: ['s1', { _id: 's2', name: 'React' }] }),
+    );
+    expect(project.skillIds).toEqual(['s1', 's2']);
+  });
+});
+
+describe('skillSerializer', () => {
+  const input: SkillInput = {
+    name: 'TypeScript',
+    image: 'https://example.com/ts.svg',
+    categoryId: 'c1',
+    level: 'advanced',
+    yearsOfExperience: 4,
+  };
+
+  it('links an image URL as imageUrl and uploads a file as image', () => {
+    expect(skillSerializer.toRequest(input).get('imageUrl')).toBe('https://example.com/ts.svg');
+
+    const withFile = skillSerializer.toRequest(input, new File(['svg'], 'ts.svg'));
+    expect(withFile.get('image')).toBeInstanceOf(File);
+    expect(withFile.has('imageUrl')).toBe(false);
+  });
+
+  it('sends empty values to clear the category, level and years', () => {
+    const body = skillSerializer.toRequest({ ...input, categoryId: null, level: null, yearsOfExperience: null });
+    expect(body.get('category')).toBe('');
+    expect(body.get('level')).toBe('');
+    expect(body.get('yearsOfExperience')).toBe('');
+  });
+
+  it('reads back what it wrote', () => {
+    const body = skillSerializer.toRequest(input);
+    const skill = skillSerializer.fromResponse(
+      skillSchema.parse({
+        _id: 'k1',
+        name: body.get('name'),
+        image: body.get('imageUrl'),
+        category: body.get('category'),
+        level: body.get('level'),
+        yearsOfExperience: Number(body.get('yearsOfExperience')),
+      }),
+    );
+    expect(skill).toEqual({ _id: 'k1', ...input, order: undefined });
+  });
+
+  it('accepts the category populated or as a bare id', () => {
+    const populated = skillSerializer.fromResponse(
+      skillSchema.parse({ _id: 'k1', name: 'TypeScript', category: { _id: 'c1', name: 'Languages' } }),
+    );
+    const bare = skillSerializer.fromResponse(skillSchema.parse({ _id: 'k1', name: 'TypeScript', category: 'c1' }));
+    const none = skillSerializer.fromResponse(skillSchema.parse({ _id: 'k1', name: 'TypeScript' }));
+    expect(populated.categoryId).toBe('c1');
+    expect(bare.categoryId).toBe('c1');
+    expect(none.categoryId).toBeNull();
+  });
+});
+
+describe('messageSerializer', () => {
+  const payload = {
+    _id: 'm1',
+    name: 'Ada',
+    email: 'ada@example.com',
+    subject: 'Hello',
+    message: 'Hi there',
+    replies: [
+      { _id: 'r2', subject: 'Re: Hello', body: 'Second', sentAt: '2024-01-02T00:00:00.000Z' },
+      { _id: 'r1', subject: 'Re: Hello', body: 'First', sentAt: '2024-01-01T00:00:00.000Z' },
+    ],
+  };
+
+  it('fills in defaults and sorts replies oldest first', () => {
+    const message = messageSerializer.fromResponse(contactMessageSchema.parse(payload));
+    expect(message).toMatchObject({ isRead: false, isArchived: false, isSpam: false, labelIds: [], pipelineStatus: 'new' });
+    expect(message.replies.map((reply) => reply._id)).toEqual(['r1', 'r2']);
+  });
+
+  it('accepts labels populated or as bare ids', () => {
+    const message = messageSerializer.fromResponse(
+      contactMessageSchema.parse({ ...payload, labels: ['l1', { _id: 'l2', name: 'Freelance', color: 'blue' }] }),
+    );
+    expect(message.labelIds).toEqual(['l1', 'l2']);
+  });
+
+  it('writes labelIds as labels and leaves other flags alone', () => {
+    expect(messageSerializer.toPatchRequest({ labelIds: ['l1'], pipelineStatus: 'won' })).toEqual({
+      labels: ['l1'],
+      pipelineStatus: 'won',
+    });
+    expect(messageSerializer.toPatchRequest({ isRead: true })).toEqual({ isRead: true });
+  });
+
+  it('fills in missing optional text', () => {
+    const message = messageSerializer.fromResponse(
+      contactMessageSchema.parse({ ...payload, subject: null, message: undefined, phoneNo: '' }),
+    );
+    expect(message).toMatchObject({ subject: '', message: '', phoneNo: undefined });
+  });
+
+  it('sends only the filters in use', () => {
+    const params = messageSerializer.toListParams(DEFAULT_MESSAGE_QUERY, 20);
+    expect(Object.fromEntries(params)).toEqual({
+      page: '1',
+      limit: '20',
+      archived: 'false',
+      spam: 'false',
+      sort: 'newest',
+    });
+  });
+
+  it('sends dates as the start and end of each day in local time', () => {
+    const params = messageSerializer.toListParams({ ...DEFAULT_MESSAGE_QUERY, from: '2024-03-10', to: '2024-03-12' }, 20);
+    expect(params.get('from')).toBe(new Date(2024, 2, 10, 0, 0, 0, 0).toISOString());
+    expect(params.get('to')).toBe(new Date(2024, 2, 12, 23, 59, 59, 999).toISOString());
+  });
+
+  it('covers the whole day when from and to are the same', () => {
+    const params = messageSerializer.toListParams({ ...DEFAULT_MESSAGE_QUERY, from: '2024-06-15', to: '2024-06-15' }, 20);
+    const span = Date.parse(params.get('to')!) - Date.parse(params.get('from')!);
+    expect(span).toBe(24 * 60 * 60 * 1000 - 1);
+  });
+});
+
+describe('urlSerializer', () => {
+  it('edits shortenUrl as shortCode', () => {
+    expect(urlSerializer.toUpdateRequest({ fullUrl: 'https://example.com', shortenUrl: 'abc' })).toEqual({
+      fullUrl: 'https://example.com',
+      shortCode: 'abc',
+    });
+    expect(urlSerializer.toCreateRequest({ fullUrl: 'https://example.com' })).toEqual({ fullUrl: 'https://example.com' });
+  });
+
+  it('reads back the short code it wrote', () => {
+    const request = urlSerializer.toUpdateRequest({ fullUrl: 'https://example.com', shortenUrl: 'abc' });
+    const url = urlSerializer.fromResponse(
+      shortenedUrlSchema.parse({ _id: 'u1', shortenUrl: request.shortCode, fullUrl: request.fullUrl }),
+    );
+    expect(url).toMatchObject({ shortenUrl: 'abc', fullUrl: 'https://example.com', clicks: 0 });
+  });
+});
+
+describe('paginationSerializer', () => {
+  const pageInfo = { currentPage: 2, totalPages: 5, hasNextPage: true, hasPrevPage: true };
+
+  it('reads the total from totalUrls or totalMessages', () => {
+    const expected = { currentPage: 2, totalPages: 5, totalItems: 42, hasNext: true, hasPrev: true };
+    expect(paginationSerializer.fromResponse(paginationSchema.parse({ ...pageInfo, totalUrls: 42 }))).toEqual(expected);
+    expect(
+      paginationSerializer.fromMessageResponse(messagePaginationSchema.parse({ ...pageInfo, totalMessages: 42 })),
+    ).toEqual(expected);
+  });
+});
+
+describe('linkCheckSerializer', () => {
+  const check = (data: object) => linkCheckSerializer.fromResponse(linkCheckSchema.parse(data));
+
+  it('classifies links as ok, redirect or broken', () => {
+    expect(check({ url: 'https://a.dev', statusCode: 200 }).state).toBe('ok');
+    expect(check({ url: 'https://a.dev', statusCode: 301 }).state).toBe('redirect');
+    expect(check({ url: 'https://a.dev', statusCode: 200, finalUrl: 'https://b.dev' })).toMatchObject({
+      state: 'redirect',
+      redirectUrl: 'https://b.dev',
+    });
+    expect(check({ url: 'https://a.dev', statusCode: 404 }).state).toBe('broken');
+    expect(check({ url: 'https://a.dev', error: 'ENOTFOUND' })).toMatchObject({ state: 'broken', statusCode: undefined });
+  });
+
+  it('ignores a final URL equal to the original', () => {
+    expect(check({ url: 'https://a.dev', statusCode: 200, finalUrl: 'https://a.dev' })).toMatchObject({
+      state: 'ok',
+      redirectUrl: undefined,
+    });
+  });
+});
+
+describe('orderSerializer', () => {
+  it('numbers ids by position', () => {
+    expect(orderSerializer.toRequest(['b', 'a'])).toEqual({
+      items: [
+        { _id: 'b', order: 0 },
+        { _id: 'a', order: 1 },
+      ],
+    });
+  });
+});
+
+describe('field errors', () => {
+  it('renames project fields from title/image to name/thumbnail', async () => {
+    stubFetch(422, {
+      message: 'Validation failed',
+      errors: [
+        { path: 'title', msg: 'Title is required' },
+        { path: 'image', msg: 'Image must be a URL' },
+        { path: 'description', msg: 'Too long' },
+      ],
+    });
+    const error = await projectsAPI.create({} as ProjectInput).catch((err: unknown) => err);
+    expect(error).toMatchObject({
+      status: 422,
+      message: 'Validation failed',
+      fieldErrors: { name: 'Title is required', thumbnail: 'Image must be a URL', description: 'Too long' },
+    });
+  });
+
+  it('renames skill fields from imageUrl/category to image/categoryId', async () => {
+    stubFetch(400, { errors: { imageUrl: { message: 'Invalid URL' }, category: 'Unknown category' } });
+    const error = await skillsAPI.update('k1', { name: 'TypeScript' } as SkillInput).catch((err: unknown) => err);
+    expect(error).toMatchObject({ fieldErrors: { image: 'Invalid URL', categoryId: 'Unknown category' } });
+  });
+
+  it('renames the short code field from shortCode to shortenUrl', async () => {
+    stubFetch(409, { error: 'Short code taken', errors: [{ param: 'shortCode', message: 'Already in use' }] });
+    const error = await urlAPI
+      .update('u1', { fullUrl: 'https://example.com', shortenUrl: 'abc' })
+      .catch((err: unknown) => err);
+    expect(error).toMatchObject({ message: 'Short code taken', fieldErrors: { shortenUrl: 'Already in use' } });
+  });
+});
+
+describe('messagesAPI.reply', () => {
+  it('accepts whatever the backend sends back', async () => {
+    stubFetch(201, { data: { _id: 'r1', subject: 'Re: Hello', body: 'Thanks!', sentAt: '2024-01-01T00:00:00Z' } });
+    await expect(messagesAPI.reply('m1', { subject: 'Re: Hello', body: 'Thanks!' })).resolves.toBeDefined();
+  });
+});
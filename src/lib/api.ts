@@ -1,8 +1,88 @@
+import { z } from 'zod';
+import {
+  contactMessageSchema,
+  envelopeSchema,
+  linkCheckSchema,
+  loginResponseSchema,
+  messageLabelSchema,
+  messageListSchema,
+  messagePaginationSchema,
+  paginationSchema,
+  projectSchema,
+  shortenedUrlSchema,
+  skillCategorySchema,
+  skillSchema,
+  uploadResponseSchema,
+  urlListSchema,
+} from '@/lib/schemas';
+import { clearSession, expireSession, getToken, startSession, updateToken } from '@/lib/session';
+import type { MessageQuery } from '@/lib/messages';
+import type {
+  ContactMessage,
+  PaginatedResponse,
+  PaginationInfo,
+  LinkHealth,
+  MessageLabel,
+  MessageLabelInput,
+  MessagePage,
+  MessagePatch,
+  MessageReplyInput,
+  Project,
+  ProjectInput,
+  ShortenedUrl,
+  Skill,
+  SkillCategory,
+  SkillInput,
+  UrlCreateInput,
+  UrlUpdateInput,
+} from '@/lib/types';
+
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
 
-// Helper function to get auth token from localStorage as fallback
-const getAuthToken = () => {
-  return localStorage.getItem('authToken');
+interface ApiErrorOptions {
+  status: number;
+  code?: string;
+  fieldErrors?: Record<string, string>;
+  details?: unknown;
+}
+
+// Error thrown for every failed API call, carrying what the server told us
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly fieldErrors: Record<string, string>;
+  readonly details: unknown;
+
+  constructor(message: string, { status, code, fieldErrors = {}, details }: ApiErrorOptions) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code || (status === 0 ? 'NETWORK_ERROR' : `HTTP_${status}`);
+    this.fieldErrors = fieldErrors;
+    this.details = details;
+  }
+
+  get isNetworkError() {
+    return this.status === 0;
+  }
+
+  get isUnauthorized() {
+    return this.status === 401;
+  }
+
+  get hasFieldErrors() {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// Human readable message for any thrown value, preferring the server's wording
+export const getErrorMessage = (error: unknown, fallback = 'Something went wrong') => {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return fallback;
 };
 
 // Helper function to create headers with authentication
@@ -17,7 +97,7 @@ const createHeaders = (additionalHeaders: Record<string, string> = {}, isFormDat
   }
 
   // Add Authorization header if token exists in localStorage
-  const token = getAuthToken();
+  const token = getToken();
   if (token) {
     headers['Authorization'] = `Bearer ${token}`;
   }
@@ -25,259 +105,751 @@ const createHeaders = (additionalHeaders: Record<string, string> = {}, isFormDat
   return headers;
 };
 
-// Helper function for fetch with proper credentials and headers
-const apiRequest = async (url: string, options: RequestInit = {}) => {
-  const isFormData = options.body instanceof FormData;
-  
-  const defaultOptions: RequestInit = {
-    headers: createHeaders(options.headers as Record<string, string>, isFormData),
-    ...options,
-  };
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Normalizes the field error shapes our backend emits:
+// - express-validator arrays: [{ path | param | field, msg | message }]
+// - mongoose style maps: { title: { message } } or { title: 'message' }
+const parseFieldErrors = (errors: unknown): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+
+  if (Array.isArray(errors)) {
+    for (const entry of errors) {
+      if (!isRecord(entry)) continue;
+      const field = entry.path ?? entry.param ?? entry.field;
+      const message = entry.msg ?? entry.message;
+      if (typeof field === 'string' && typeof message === 'string' && !fieldErrors[field]) {
+        fieldErrors[field] = message;
+      }
+    }
+  } else if (isRecord(errors)) {
+    for (const [field, value] of Object.entries(errors)) {
+      if (typeof value === 'string') {
+        fieldErrors[field] = value;
+      } else if (isRecord(value) && typeof value.message === 'string') {
+        fieldErrors[field] = value.message;
+      }
+    }
+  }
+
+  return fieldErrors;
+};
+
+// Renames field errors from the backend's field names to the model's, keeping unknown fields as-is
+const renameFields = (fieldErrors: Record<string, string>, fieldNames: Record<string, string>) =>
+  Object.fromEntries(Object.entries(fieldErrors).map(([field, message]) => [fieldNames[field] ?? field, message]));
+
+// Builds an ApiError from a non-2xx response, reading the JSON error body when there is one
+const toApiError = async (response: Response, fallbackMessage: string, fieldNames: Record<string, string> = {}) => {
+  let payload: unknown;
+  try {
+    const text = await response.text();
+    payload = text ? JSON.parse(text) : undefined;
+  } catch {
+    payload = undefined;
+  }
+
+  if (!isRecord(payload)) {
+    return new ApiError(fallbackMessage, { status: response.status });
+  }
+
+  const message =
+    (typeof payload.message === 'string' && payload.message) ||
+    (typeof payload.error === 'string' && payload.error) ||
+    fallbackMessage;
+
+  return new ApiError(message, {
+    status: response.status,
+    code: typeof payload.code === 'string' ? payload.code : undefined,
+    fieldErrors: renameFields(parseFieldErrors(payload.errors), fieldNames),
+    details: payload,
+  });
+};
+
+// Thrown when a successful response doesn't match the schema we expect for that endpoint
+export class ResponseValidationError extends ApiError {
+  readonly issues: z.core.$ZodIssue[];
+
+  constructor(message: string, status: number, issues: z.core.$ZodIssue[]) {
+    super(message, { status, code: 'INVALID_RESPONSE', details: issues });
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+  }
+}
+
+const formatIssuePath = (path: PropertyKey[]) =>
+  path.length ? path.map((segment) => String(segment)).join('.') : '(root)';
+
+interface RequestOptions<S extends z.ZodType> extends RequestInit {
+  // Schema the response body is validated against
+  schema: S;
+  // Message used when the server doesn't provide one
+  errorMessage?: string;
+  // Try to refresh the session and retry once when the server answers 401 (default true)
+  authRecovery?: boolean;
+  // Backend field name -> model field name, applied to validation errors
+  fieldNames?: Record<string, string>;
+}
+
+// Deletes can be flushed while the page unloads; `keepalive` lets the request outlive the page
+interface DeleteOptions {
+  keepalive?: boolean;
+}
+
+const sendRequest = async (path: string, init: RequestInit, headers?: HeadersInit) => {
+  const isFormData = init.body instanceof FormData;
+
+  try {
+    return await fetch(`${API_BASE_URL}${path}`, {
+      ...init,
+      headers: createHeaders(headers as Record<string, string>, isFormData),
+    });
+  } catch (error) {
+    throw new ApiError('Unable to reach the server. Check your connection and try again.', {
+      status: 0,
+      details: error,
+    });
+  }
+};
+
+// Performs an authenticated request against the API and returns the validated JSON body.
+// Any failure (network, non-2xx status, unreadable or malformed body) is thrown as an ApiError.
+const apiRequest = async <S extends z.ZodType>(path: string, options: RequestOptions<S>): Promise<z.output<S>> => {
+  const { schema, errorMessage = 'Request failed', authRecovery = true, fieldNames, headers, ...init } = options;
+
+  let response = await sendRequest(path, init, headers);
+
+  if (response.status === 401 && authRecovery) {
+    if (await refreshSession()) {
+      response = await sendRequest(path, init, headers);
+    }
+    if (response.status === 401) {
+      expireSession();
+    }
+  }
+
+  if (!response.ok) {
+    throw await toApiError(response, errorMessage, fieldNames);
+  }
+
+  let payload: unknown;
+  if (response.status !== 204) {
+    try {
+      payload = await response.json();
+    } catch (error) {
+      throw new ApiError(`${errorMessage}: invalid response from server`, {
+        status: response.status,
+        code: 'INVALID_RESPONSE',
+        details: error,
+      });
+    }
+  }
+
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    const [firstIssue] = result.error.issues;
+    console.error(
+      `Unexpected response from ${init.method || 'GET'} ${path}:`,
+      result.error.issues.map((issue) => `${formatIssuePath(issue.path)}: ${issue.message}`),
+    );
+    throw new ResponseValidationError(
+      `${errorMessage}: unexpected response from server (${formatIssuePath(firstIssue.path)}: ${firstIssue.message})`,
+      response.status,
+      result.error.issues,
+    );
+  }
+
+  return result.data;
+};
+
+// Deletes and logout don't return anything we use
+const anyResponseSchema = z.unknown();
 
-  return fetch(url, defaultOptions);
+// Set once the backend tells us it has no refresh endpoint, so we stop asking
+let refreshUnavailable = false;
+let pendingRefresh: Promise<boolean> | null = null;
+
+const requestTokenRefresh = async () => {
+  try {
+    const data = await apiRequest('/auth/refresh', {
+      schema: loginResponseSchema,
+      method: 'POST',
+      credentials: 'include',
+      authRecovery: false,
+      errorMessage: 'Failed to refresh session',
+    });
+    if (!data.token) return false;
+    updateToken(data.token);
+    return true;
+  } catch (error) {
+    if (isApiError(error) && [404, 405, 501].includes(error.status)) {
+      refreshUnavailable = true;
+    }
+    return false;
+  }
+};
+
+// Exchanges the current session for a fresh token; concurrent callers share one request
+const refreshSession = () => {
+  if (refreshUnavailable) return Promise.resolve(false);
+  pendingRefresh ??= requestTokenRefresh().finally(() => {
+    pendingRefresh = null;
+  });
+  return pendingRefresh;
+};
+
+// Wire format mapping. Components only deal with the models in lib/types.ts;
+// these serializers own every backend field name that differs from them.
+
+type ProjectPayload = z.output<typeof projectSchema>;
+type SkillPayload = z.output<typeof skillSchema>;
+type SkillCategoryPayload = z.output<typeof skillCategorySchema>;
+type MessagePayload = z.output<typeof contactMessageSchema>;
+type UrlPayload = z.output<typeof shortenedUrlSchema>;
+type PaginationPayload = z.output<typeof paginationSchema>;
+type MessagePaginationPayload = z.output<typeof messagePaginationSchema>;
+type LinkCheckPayload = z.output<typeof linkCheckSchema>;
+
+// Projects are read back as name/thumbnail but written as title/image
+export const projectSerializer = {
+  fieldNames: { title: 'name', image: 'thumbnail', skills: 'skillIds' },
+
+  fromResponse: (data: ProjectPayload): Project => ({
+    _id: data._id,
+    name: data.name,
+    description: data.description,
+    thumbnail: data.thumbnail,
+    demoLink: data.demoLink,
+    sourceCodeLink: data.sourceCodeLink,
+    status: data.status,
+    featured: data.featured,
+    skillIds: data.skills.map((skill) => (typeof skill === 'string' ? skill : skill._id)),
+    gallery: data.gallery.map((image) => ({ url: image.url, alt: image.alt })),
+    order: data.order,
+    createdAt: data.createdAt,
+  }),
+
+  toRequest: (project: ProjectInput, thumbnailFile?: File | null) => {
+    const body = new FormData();
+    body.append('title', project.name);
+    body.append('description', project.description);
+    body.append('demoLink', project.demoLink);
+    body.append('sourceCodeLink', project.sourceCodeLink);
+    body.append('status', project.status);
+    body.append('featured', String(project.featured));
+    // Multipart has no arrays, so the list travels as JSON
+    body.append('skills', JSON.stringify(project.skillIds));
+    body.append('gallery', JSON.stringify(project.gallery));
+    // An uploaded file wins over a pasted URL
+    if (thumbnailFile) {
+      body.append('image', thumbnailFile);
+    } else if (project.thumbnail) {
+      body.append('image', project.thumbnail);
+    }
+    return body;
+  },
 };
 
+// Skill images are uploaded as `image` but linked as `imageUrl`
+export const skillSerializer = {
+  fieldNames: { imageUrl: 'image', category: 'categoryId' },
+
+  fromResponse: (data: SkillPayload): Skill => ({
+    _id: data._id,
+    name: data.name,
+    image: data.image,
+    categoryId: (typeof data.category === 'object' ? data.category?._id : data.category) ?? null,
+    level: data.level ?? null,
+    yearsOfExperience: data.yearsOfExperience ?? null,
+    order: data.order,
+  }),
+
+  toRequest: (skill: SkillInput, imageFile?: File | null) => {
+    const body = new FormData();
+    body.append('name', skill.name);
+    // Empty values clear the field on the server
+    body.append('category', skill.categoryId ?? '');
+    body.append('level', skill.level ?? '');
+    body.append('yearsOfExperience', skill.yearsOfExperience === null ? '' : String(skill.yearsOfExperience));
+    if (imageFile) {
+      body.append('image', imageFile);
+    } else if (skill.image) {
+      body.append('imageUrl', skill.image);
+    }
+    return body;
+  },
+};
+
+export const skillCategorySerializer = {
+  fromResponse: (data: SkillCategoryPayload): SkillCategory => ({
+    _id: data._id,
+    name: data.name,
+    order: data.order,
+  }),
+};
+
+export const messageSerializer = {
+  fromResponse: (data: MessagePayload): ContactMessage => ({
+    _id: data._id,
+    name: data.name,
+    email: data.email,
+    phoneNo: data.phoneNo,
+    subject: data.subject,
+    message: data.message,
+    createdAt: data.createdAt,
+    isRead: data.isRead ?? false,
+    isArchived: data.isArchived ?? false,
+    isSpam: data.isSpam ?? false,
+    labelIds: data.labels.map((label) => (typeof label === 'string' ? label : label._id)),
+    pipelineStatus: data.pipelineStatus,
+    replies: [...data.replies].sort((a, b) => a.sentAt.localeCompare(b.sentAt)),
+  }),
+
+  // Labels are sent as `labels`; the other flags keep their names
+  toPatchRequest: ({ labelIds, ...patch }: MessagePatch) => ({
+    ...patch,
+    ...(labelIds !== undefined && { labels: labelIds }),
+  }),
+
+  // Dates are sent as whole days in the admin's time zone, so `to` covers the entire day
+  toListParams: (query: MessageQuery, limit: number) => {
+    const params = new URLSearchParams({
+      page: String(query.page),
+      limit: String(limit),
+      archived: String(query.view === 'archived'),
+      spam: String(query.view === 'spam'),
+      sort: query.sort,
+    });
+    if (query.search.trim()) params.set('search', query.search.trim());
+    if (query.status !== 'all') params.set('isRead', String(query.status === 'read'));
+    if (query.from) params.set('from', new Date(`${query.from}T00:00:00`).toISOString());
+    if (query.to) params.set('to', new Date(`${query.to}T23:59:59.999`).toISOString());
+    if (query.hasPhone) params.set('hasPhone', 'true');
+    if (query.labelId) params.set('label', query.labelId);
+    return params;
+  },
+};
+
+// Short codes are listed as `shortenUrl` but edited as `shortCode`
+export const urlSerializer = {
+  fieldNames: { shortCode: 'shortenUrl' },
+
+  fromResponse: (data: UrlPayload): ShortenedUrl => ({
+    _id: data._id,
+    shortenUrl: data.shortenUrl,
+    fullUrl: data.fullUrl,
+    clicks: data.clicks,
+    isDeleted: data.isDeleted,
+    createdAt: data.createdAt,
+  }),
+
+  toCreateRequest: (url: UrlCreateInput) => ({ fullUrl: url.fullUrl }),
+
+  toUpdateRequest: (url: UrlUpdateInput) => ({ fullUrl: url.fullUrl, shortCode: url.shortenUrl }),
+};
+
+export const paginationSerializer = {
+  fromResponse: (data: PaginationPayload): PaginationInfo => ({
+    currentPage: data.currentPage,
+    totalPages: data.totalPages,
+    totalItems: data.totalUrls,
+    hasNext: data.hasNextPage,
+    hasPrev: data.hasPrevPage,
+  }),
+
+  fromMessageResponse: (data: MessagePaginationPayload): PaginationInfo => ({
+    currentPage: data.currentPage,
+    totalPages: data.totalPages,
+    totalItems: data.totalMessages,
+    hasNext: data.hasNextPage,
+    hasPrev: data.hasPrevPage,
+  }),
+};
+
+// The checker reports raw HTTP results; the dashboard only cares whether a link is fine, moved or dead
+export const linkCheckSerializer = {
+  fromResponse: (data: LinkCheckPayload): LinkHealth => {
+    const statusCode = data.statusCode ?? undefined;
+    const redirectUrl = data.finalUrl && data.finalUrl !== data.url ? data.finalUrl : undefined;
+    const broken = Boolean(data.error) || statusCode === undefined || statusCode >= 400;
+    const redirected = redirectUrl !== undefined || (statusCode !== undefined && statusCode >= 300 && statusCode < 400);
+
+    return {
+      url: data.url,
+      state: broken ? 'broken' : redirected ? 'redirect' : 'ok',
+      statusCode,
+      redirectUrl,
+      error: data.error ?? undefined,
+    };
+  },
+};
+
+// Bulk reorder payload shared by projects and skills: each id with its new position
+export const orderSerializer = {
+  toRequest: (ids: string[]) => ({ items: ids.map((_id, order) => ({ _id, order })) }),
+};
+
+// Records that were never reordered keep the API's order, after the ordered ones
+const byOrder = <T extends { order?: number }>(items: T[]) =>
+  [...items].sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER));
+
+// Create/update responses may or may not echo the saved record back
+const fromOptional = <T, R>(data: T | undefined, fromResponse: (data: T) => R) =>
+  data === undefined ? undefined : fromResponse(data);
+
 // Auth API
 export const authAPI = {
   login: async (email: string, password: string) => {
-    const response = await apiRequest(`${API_BASE_URL}/auth/login`, {
+    const data = await apiRequest('/auth/login', {
+      schema: loginResponseSchema,
       method: 'POST',
       body: JSON.stringify({ email, password }),
+      authRecovery: false,
+      errorMessage: 'Login failed',
     });
 
-    if (!response.ok) {
-      throw new Error('Login failed');
-    }
-
-    const data = await response.json();
-    
     // Save token to localStorage if provided in response
-    if (data.token) {
-      localStorage.setItem('authToken', data.token);
-    }
+    startSession(data.token);
 
     return data;
   },
 
   logout: async () => {
-    // Clear token from localStorage
-    localStorage.removeItem('authToken');
-    
-    // Optionally call logout endpoint if it exists
+    // Optionally call logout endpoint if it exists, while the token is still around
     try {
-      await apiRequest(`${API_BASE_URL}/auth/logout`, {
-        method: 'POST',
-      });
+      await apiRequest('/auth/logout', { method: 'POST', schema: anyResponseSchema, authRecovery: false });
     } catch (error) {
       // Ignore logout endpoint errors
       console.warn('Logout endpoint error:', error);
     }
+
+    // Clear token from localStorage
+    clearSession();
   },
+
+  refresh: refreshSession,
 };
 
 // Projects API
 export const projectsAPI = {
-  getAll: async () => {
-    const response = await apiRequest(`${API_BASE_URL}/portfolio/projects`);
-    
-    if (!response.ok) {
-      throw new Error('Failed to fetch projects');
-    }
-
-    const data = await response.json();
-    return data.data || [];
+  getAll: async (): Promise<Project[]> => {
+    const result = await apiRequest('/portfolio/projects', {
+      schema: envelopeSchema(z.array(projectSchema)),
+      errorMessage: 'Failed to fetch projects',
+    });
+    return byOrder(result.data.map(projectSerializer.fromResponse));
   },
 
-  create: async (project: { name: string; description: string; thumbnail: string; demoLink: string; sourceCodeLink: string } | FormData) => {
-    const body = project instanceof FormData ? project : JSON.stringify(project);
-    
-    const response = await apiRequest(`${API_BASE_URL}/portfolio/projects`, {
+  create: async (project: ProjectInput, thumbnailFile?: File | null) => {
+    const result = await apiRequest('/portfolio/projects', {
+      schema: envelopeSchema(projectSchema.optional()),
       method: 'POST',
-      body,
+      body: projectSerializer.toRequest(project, thumbnailFile),
+      fieldNames: projectSerializer.fieldNames,
+      errorMessage: 'Failed to create project',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to create project');
-    }
-
-    return response.json();
+    return fromOptional(result.data, projectSerializer.fromResponse);
   },
 
-  update: async (id: string, project: { name: string; description: string; thumbnail: string; demoLink: string; sourceCodeLink: string } | FormData) => {
-    const body = project instanceof FormData ? project : JSON.stringify(project);
-    
-    const response = await apiRequest(`${API_BASE_URL}/portfolio/projects/${id}`, {
+  update: async (id: string, project: ProjectInput, thumbnailFile?: File | null) => {
+    const result = await apiRequest(`/portfolio/projects/${id}`, {
+      schema: envelopeSchema(projectSchema.optional()),
       method: 'PUT',
-      body,
+      body: projectSerializer.toRequest(project, thumbnailFile),
+      fieldNames: projectSerializer.fieldNames,
+      errorMessage: 'Failed to update project',
     });
+    return fromOptional(result.data, projectSerializer.fromResponse);
+  },
 
-    if (!response.ok) {
-      throw new Error('Failed to update project');
-    }
-
-    return response.json();
+  // Saves the portfolio order; `ids` lists every project, first to last
+  reorder: async (ids: string[]) => {
+    return apiRequest('/portfolio/projects/reorder', {
+      schema: anyResponseSchema,
+      method: 'PUT',
+      body: JSON.stringify(orderSerializer.toRequest(ids)),
+      errorMessage: 'Failed to reorder projects',
+    });
   },
 
-  delete: async (id: string) => {
-    const response = await apiRequest(`${API_BASE_URL}/portfolio/projects/${id}`, {
+  delete: async (id: string, { keepalive }: DeleteOptions = {}) => {
+    return apiRequest(`/portfolio/projects/${id}`, {
+      schema: anyResponseSchema,
       method: 'DELETE',
+      keepalive,
+      errorMessage: 'Failed to delete project',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to delete project');
-    }
-
-    return response.json();
   },
 };
 
 // Skills API
 export const skillsAPI = {
-  getAll: async () => {
-    const response = await apiRequest(`${API_BASE_URL}/portfolio/skills`);
-    
-    if (!response.ok) {
-      throw new Error('Failed to fetch skills');
-    }
-
-    const data = await response.json();
-    return data.data || [];
+  getAll: async (): Promise<Skill[]> => {
+    const result = await apiRequest('/portfolio/skills', {
+      schema: envelopeSchema(z.array(skillSchema)),
+      errorMessage: 'Failed to fetch skills',
+    });
+    return byOrder(result.data.map(skillSerializer.fromResponse));
   },
 
-  create: async (skill: { name: string; image: string } | FormData) => {
-    const body = skill instanceof FormData ? skill : JSON.stringify(skill);
-    
-    const response = await apiRequest(`${API_BASE_URL}/portfolio/skills`, {
+  create: async (skill: SkillInput, imageFile?: File | null) => {
+    const result = await apiRequest('/portfolio/skills', {
+      schema: envelopeSchema(skillSchema.optional()),
       method: 'POST',
-      body,
+      body: skillSerializer.toRequest(skill, imageFile),
+      fieldNames: skillSerializer.fieldNames,
+      errorMessage: 'Failed to create skill',
     });
+    return fromOptional(result.data, skillSerializer.fromResponse);
+  },
 
-    if (!response.ok) {
-      throw new Error('Failed to create skill');
-    }
-
-    return response.json();
+  update: async (id: string, skill: SkillInput, imageFile?: File | null) => {
+    const result = await apiRequest(`/portfolio/skills/${id}`, {
+      schema: envelopeSchema(skillSchema.optional()),
+      method: 'PUT',
+      body: skillSerializer.toRequest(skill, imageFile),
+      fieldNames: skillSerializer.fieldNames,
+      errorMessage: 'Failed to update skill',
+    });
+    return fromOptional(result.data, skillSerializer.fromResponse);
   },
 
-  update: async (id: string, skill: { name: string; image: string } | FormData) => {
-    const body = skill instanceof FormData ? skill : JSON.stringify(skill);
-    
-    const response = await apiRequest(`${API_BASE_URL}/portfolio/skills/${id}`, {
+  // Saves the portfolio order; `ids` lists every skill, first to last
+  reorder: async (ids: string[]) => {
+    return apiRequest('/portfolio/skills/reorder', {
+      schema: anyResponseSchema,
       method: 'PUT',
-      body,
+      body: JSON.stringify(orderSerializer.toRequest(ids)),
+      errorMessage: 'Failed to reorder skills',
     });
+  },
 
-    if (!response.ok) {
-      throw new Error('Failed to update skill');
-    }
+  getCategories: async (): Promise<SkillCategory[]> => {
+    const result = await apiRequest('/portfolio/skill-categories', {
+      schema: envelopeSchema(z.array(skillCategorySchema)),
+      errorMessage: 'Failed to fetch skill categories',
+    });
+    return byOrder(result.data.map(skillCategorySerializer.fromResponse));
+  },
 
-    return response.json();
+  createCategory: async (name: string) => {
+    const result = await apiRequest('/portfolio/skill-categories', {
+      schema: envelopeSchema(skillCategorySchema.optional()),
+      method: 'POST',
+      body: JSON.stringify({ name }),
+      errorMessage: 'Failed to create category',
+    });
+    return fromOptional(result.data, skillCategorySerializer.fromResponse);
   },
 
-  delete: async (id: string) => {
-    const response = await apiRequest(`${API_BASE_URL}/portfolio/skills/${id}`, {
-      method: 'DELETE',
+  renameCategory: async (id: string, name: string) => {
+    const result = await apiRequest(`/portfolio/skill-categories/${id}`, {
+      schema: envelopeSchema(skillCategorySchema.optional()),
+      method: 'PUT',
+      body: JSON.stringify({ name }),
+      errorMessage: 'Failed to rename category',
     });
+    return fromOptional(result.data, skillCategorySerializer.fromResponse);
+  },
 
-    if (!response.ok) {
-      throw new Error('Failed to delete skill');
-    }
+  // `ids` lists every category, first to last
+  reorderCategories: async (ids: string[]) => {
+    return apiRequest('/portfolio/skill-categories/reorder', {
+      schema: anyResponseSchema,
+      method: 'PUT',
+      body: JSON.stringify(orderSerializer.toRequest(ids)),
+      errorMessage: 'Failed to reorder categories',
+    });
+  },
 
-    return response.json();
+  delete: async (id: string, { keepalive }: DeleteOptions = {}) => {
+    return apiRequest(`/portfolio/skills/${id}`, {
+      schema: anyResponseSchema,
+      method: 'DELETE',
+      keepalive,
+      errorMessage: 'Failed to delete skill',
+    });
   },
 };
 
 // Messages API
 export const messagesAPI = {
-  getAll: async () => {
-    const response = await apiRequest(`${API_BASE_URL}/portfolio/contact`);
-    
-    if (!response.ok) {
-      throw new Error('Failed to fetch messages');
-    }
+  getAll: async (query: MessageQuery, limit: number = 20): Promise<MessagePage> => {
+    const params = messageSerializer.toListParams(query, limit);
+    const result = await apiRequest(`/portfolio/contact?${params}`, {
+      schema: envelopeSchema(messageListSchema),
+      errorMessage: 'Failed to fetch messages',
+    });
+    const { messages, pagination, counts } = result.data;
+
+    return {
+      data: messages.map(messageSerializer.fromResponse),
+      pagination: paginationSerializer.fromMessageResponse(pagination),
+      counts,
+    };
+  },
+
+  // Applies the same flags to every message in `ids`, e.g. to mark a selection as read
+  update: async (ids: string[], patch: MessagePatch) => {
+    return apiRequest('/portfolio/contact', {
+      schema: anyResponseSchema,
+      method: 'PATCH',
+      body: JSON.stringify({ ids, ...messageSerializer.toPatchRequest(patch) }),
+      errorMessage: 'Failed to update messages',
+    });
+  },
 
-    const data = await response.json();
-    return data.data || [];
+  // Emails the sender from the backend, which also records the reply on the message.
+  // The inbox is refetched afterwards, so the response body isn't relied on.
+  reply: async (id: string, reply: MessageReplyInput) => {
+    return apiRequest(`/portfolio/contact/${id}/reply`, {
+      schema: envelopeSchema(z.unknown()),
+      method: 'POST',
+      body: JSON.stringify(reply),
+      errorMessage: 'Failed to send reply',
+    });
+  },
+
+  // Feeds the backend spam filter; `spam: false` reports messages wrongly flagged as spam
+  reportSpam: async (ids: string[], spam: boolean) => {
+    return apiRequest('/portfolio/contact/spam-report', {
+      schema: anyResponseSchema,
+      method: 'POST',
+      body: JSON.stringify({ ids, spam }),
+      errorMessage: 'Failed to report spam',
+    });
+  },
+
+  getLabels: async (): Promise<MessageLabel[]> => {
+    const result = await apiRequest('/portfolio/contact-labels', {
+      schema: envelopeSchema(z.array(messageLabelSchema)),
+      errorMessage: 'Failed to fetch labels',
+    });
+    return result.data;
+  },
+
+  createLabel: async (label: MessageLabelInput) => {
+    const result = await apiRequest('/portfolio/contact-labels', {
+      schema: envelopeSchema(messageLabelSchema.optional()),
+      method: 'POST',
+      body: JSON.stringify(label),
+      errorMessage: 'Failed to create label',
+    });
+    return result.data;
+  },
+
+  updateLabel: async (id: string, label: MessageLabelInput) => {
+    const result = await apiRequest(`/portfolio/contact-labels/${id}`, {
+      schema: envelopeSchema(messageLabelSchema.optional()),
+      method: 'PUT',
+      body: JSON.stringify(label),
+      errorMessage: 'Failed to update label',
+    });
+    return result.data;
+  },
+
+  // The backend also takes the label off every message that has it
+  deleteLabel: async (id: string) => {
+    return apiRequest(`/portfolio/contact-labels/${id}`, {
+      schema: anyResponseSchema,
+      method: 'DELETE',
+      errorMessage: 'Failed to delete label',
+    });
+  },
+
+  // Permanently deletes every message in the Spam view
+  purgeSpam: async () => {
+    return apiRequest('/portfolio/contact/spam', {
+      schema: anyResponseSchema,
+      method: 'DELETE',
+      errorMessage: 'Failed to empty spam',
+    });
+  },
+
+  delete: async (ids: string[], { keepalive }: DeleteOptions = {}) => {
+    return apiRequest('/portfolio/contact', {
+      schema: anyResponseSchema,
+      method: 'DELETE',
+      keepalive,
+      body: JSON.stringify({ ids }),
+      errorMessage: 'Failed to delete messages',
+    });
   },
 };
 
 // URL Shortener API
 export const urlAPI = {
-  getAll: async (page: number = 1, limit: number = 20) => {
-    const response = await apiRequest(`${API_BASE_URL}/url?page=${page}&limit=${limit}`);
-    
-    if (!response.ok) {
-      throw new Error('Failed to fetch URLs');
-    }
+  getAll: async (page: number = 1, limit: number = 20): Promise<PaginatedResponse<ShortenedUrl>> => {
+    const result = await apiRequest(`/url?page=${page}&limit=${limit}`, {
+      schema: envelopeSchema(urlListSchema),
+      errorMessage: 'Failed to fetch URLs',
+    });
+    const { urls, pagination } = result.data;
 
-    const result = await response.json();
-    
-    // Handle the new response format with nested data structure
-    if (result.success && result.data) {
-      const urlsData = result.data.urls || [];
-      const paginationData = result.data.pagination || {};
-      
-      return {
-        data: Array.isArray(urlsData) ? urlsData : [],
-        pagination: {
-          currentPage: paginationData.currentPage || page,
-          totalPages: paginationData.totalPages || 1,
-          totalItems: paginationData.totalUrls || urlsData.length,
-          hasNext: paginationData.hasNextPage || false,
-          hasPrev: paginationData.hasPrevPage || false
-        }
-      };
-    }
-    
-    // Fallback for direct array response (legacy support)
-    const data = Array.isArray(result) ? result : [];
     return {
-      data,
-      pagination: {
-        currentPage: page,
-        totalPages: 1,
-        totalItems: data.length,
-        hasNext: false,
-        hasPrev: false
-      }
+      data: urls.map(urlSerializer.fromResponse),
+      pagination: paginationSerializer.fromResponse(pagination),
     };
   },
 
-  create: async (url: { fullUrl: string }) => {
-    const response = await apiRequest(`${API_BASE_URL}/url`, {
+  create: async (url: UrlCreateInput) => {
+    const result = await apiRequest('/url', {
+      schema: envelopeSchema(shortenedUrlSchema.optional()),
       method: 'POST',
-      body: JSON.stringify(url),
+      body: JSON.stringify(urlSerializer.toCreateRequest(url)),
+      fieldNames: urlSerializer.fieldNames,
+      errorMessage: 'Failed to create short URL',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to create short URL');
-    }
-
-    return response.json();
+    return fromOptional(result.data, urlSerializer.fromResponse);
   },
 
-  update: async (id: string, url: { fullUrl: string; shortCode: string }) => {
-    const response = await apiRequest(`${API_BASE_URL}/url/${id}`, {
+  update: async (id: string, url: UrlUpdateInput) => {
+    const result = await apiRequest(`/url/${id}`, {
+      schema: envelopeSchema(shortenedUrlSchema.optional()),
       method: 'PUT',
-      body: JSON.stringify(url),
+      body: JSON.stringify(urlSerializer.toUpdateRequest(url)),
+      fieldNames: urlSerializer.fieldNames,
+      errorMessage: 'Failed to update URL',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to update URL');
-    }
-
-    return response.json();
+    return fromOptional(result.data, urlSerializer.fromResponse);
   },
 
-  delete: async (id: string) => {
-    const response = await apiRequest(`${API_BASE_URL}/url/${id}`, {
+  delete: async (id: string, { keepalive }: DeleteOptions = {}) => {
+    return apiRequest(`/url/${id}`, {
+      schema: anyResponseSchema,
       method: 'DELETE',
+      keepalive,
+      errorMessage: 'Failed to delete URL',
     });
+  },
+};
 
-    if (!response.ok) {
-      throw new Error('Failed to delete URL');
-    }
+// Upload API
+export const uploadAPI = {
+  // Stores an image and returns its public URL
+  image: async (file: File) => {
+    const body = new FormData();
+    body.append('image', file);
+    return apiRequest('/upload', {
+      schema: uploadResponseSchema,
+      method: 'POST',
+      body,
+      errorMessage: 'Failed to upload image',
+    });
+  },
+};
 
-    return response.json();
+// Link checker API
+export const linksAPI = {
+  // Probes each URL from the server, which follows redirects and isn't limited by CORS
+  check: async (urls: string[]): Promise<LinkHealth[]> => {
+    const result = await apiRequest('/links/check', {
+      schema: envelopeSchema(z.array(linkCheckSchema)),
+      method: 'POST',
+      body: JSON.stringify({ urls }),
+      errorMessage: 'Failed to check links',
+    });
+    return result.data.map(linkCheckSerializer.fromResponse);
   },
 };
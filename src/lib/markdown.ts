@@ -0,0 +1,23 @@
+import DOMPurify from 'dompurify';
+import { marked } from 'marked';
+
+// Project descriptions are stored as Markdown and rendered to sanitized HTML for previews.
+
+// Links in rendered Markdown always open in a new tab without access to the dashboard
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A' && node.hasAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+export const renderMarkdown = (source: string) =>
+  DOMPurify.sanitize(marked.parse(source, { async: false, gfm: true, breaks: true }));
+
+// Text content of the rendered Markdown, for single-line previews in tables
+export const markdownToPlainText = (source: string) => {
+  const html = renderMarkdown(source);
+  return new DOMParser().parseFromString(html, 'text/html').body.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+};
+
+export const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_MESSAGE_QUERY,
+  isFilteredMessageQuery,
+  parseMessageQuery,
+  toMessageSearchParams,
+  type MessageQuery,
+} from '@/lib/messages';
+
+const parse = (search: string) => parseMessageQuery(new URLSearchParams(search));
+
+describe('parseMessageQuery', () => {
+  it('uses the defaults for an empty URL', () => {
+    expect(parse('')).toEqual(DEFAULT_MESSAGE_QUERY);
+  });
+
+  it('reads every filter from the URL', () => {
+    expect(
+      parse('view=archived&q=quote+request&status=unread&from=2024-01-01&to=2024-01-31&phone=1&label=l1&sort=oldest&page=3&layout=board'),
+    ).toEqual({
+      view: 'archived',
+      search: 'quote request',
+      status: 'unread',
+      from: '2024-01-01',
+      to: '2024-01-31',
+      hasPhone: true,
+      labelId: 'l1',
+      sort: 'oldest',
+      page: 3,
+      layout: 'board',
+    });
+  });
+
+  it('falls back to the defaults for values it does not recognise', () => {
+    expect(parse('view=trash&status=starred&from=01/02/2024&to=yesterday&phone=yes&label=&sort=az&page=-2&layout=grid')).toEqual(
+      DEFAULT_MESSAGE_QUERY,
+    );
+    expect(parse('page=abc').page).toBe(1);
+  });
+});
+
+describe('toMessageSearchParams', () => {
+  it('leaves defaults out of the URL', () => {
+    expect(toMessageSearchParams(DEFAULT_MESSAGE_QUERY)).toEqual({});
+  });
+
+  it('round-trips through the URL', () => {
+    const query: MessageQuery = {
+      view: 'spam',
+      search: 'seo & backlinks?',
+      status: 'read',
+      from: '2024-02-01',
+      to: '',
+      hasPhone: true,
+      labelId: 'a/b',
+      sort: 'oldest',
+      page: 2,
+      layout: 'board',
+    };
+    const search = new URLSearchParams(toMessageSearchParams(query)).toString();
+    expect(parseMessageQuery(new URLSearchParams(search))).toEqual(query);
+  });
+});
+
+describe('isFilteredMessageQuery', () => {
+  it('ignores the view, sort, page, layout and a blank search', () => {
+    expect(
+      isFilteredMessageQuery({ ...DEFAULT_MESSAGE_QUERY, view: 'archived', sort: 'oldest', page: 4, layout: 'board', search: '  ' }),
+    ).toBe(false);
+  });
+
+  it.each<Partial<MessageQuery>>([
+    { search: 'invoice' },
+    { status: 'unread' },
+    { from: '2024-01-01' },
+    { to: '2024-01-31' },
+    { hasPhone: true },
+    { labelId: 'l1' },
+  ])('counts %o as a filter', (filter) => {
+    expect(isFilteredMessageQuery({ ...DEFAULT_MESSAGE_QUERY, ...filter })).toBe(true);
+  });
+});
@@ -0,0 +1,149 @@
+import type { LabelColor, PipelineStatus } from '@/lib/types';
+
+// Search, filter and paging state for the inbox. Filtering happens on the server;
+// the query lives in the URL so views can be bookmarked and survive a reload.
+
+// Archived messages only show under 'archived', and spam only under 'spam'
+export type MessageView = 'inbox' | 'archived' | 'spam';
+export type MessageStatus = 'all' | 'unread' | 'read';
+export type MessageSort = 'newest' | 'oldest';
+// Table rows, or a board with a column per pipeline status
+export type MessageLayout = 'table' | 'board';
+
+export interface MessageQuery {
+  view: MessageView;
+  // Matches name, email, subject and message body
+  search: string;
+  status: MessageStatus;
+  // Received on or after / on or before these days (YYYY-MM-DD), or '' for no limit
+  from: string;
+  to: string;
+  hasPhone: boolean;
+  // Only messages with this label
+  labelId: string | null;
+  sort: MessageSort;
+  page: number;
+  // Display only; not sent to the server
+  layout: MessageLayout;
+}
+
+export const DEFAULT_MESSAGE_QUERY: MessageQuery = {
+  view: 'inbox',
+  search: '',
+  status: 'all',
+  from: '',
+  to: '',
+  hasPhone: false,
+  labelId: null,
+  sort: 'newest',
+  page: 1,
+  layout: 'table',
+};
+
+export const MESSAGE_VIEW_LABELS: Record<MessageView, string> = {
+  inbox: 'Inbox',
+  archived: 'Archived',
+  spam: 'Spam',
+};
+
+export const MESSAGE_STATUS_LABELS: Record<MessageStatus, string> = {
+  all: 'Read and unread',
+  unread: 'Unread only',
+  read: 'Read only',
+};
+
+export const MESSAGE_SORT_LABELS: Record<MessageSort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+};
+
+export const MESSAGE_LAYOUT_LABELS: Record<MessageLayout, string> = {
+  table: 'Table',
+  board: 'Board',
+};
+
+// In pipeline order, which is also the board's column order
+export const PIPELINE_STATUS_LABELS: Record<PipelineStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  'in-discussion': 'In discussion',
+  won: 'Won',
+  lost: 'Lost',
+};
+
+// Label colours, applied over the outline badge
+export const LABEL_COLORS: Record<LabelColor, { name: string; className: string }> = {
+  gray: { name: 'Gray', className: 'border-gray-300 bg-gray-100 text-gray-700 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-200' },
+  red: { name: 'Red', className: 'border-red-300 bg-red-50 text-red-700 dark:border-red-800 dark:bg-red-950 dark:text-red-300' },
+  orange: {
+    name: 'Orange',
+    className: 'border-orange-300 bg-orange-50 text-orange-700 dark:border-orange-800 dark:bg-orange-950 dark:text-orange-300',
+  },
+  green: {
+    name: 'Green',
+    className: 'border-green-300 bg-green-50 text-green-700 dark:border-green-800 dark:bg-green-950 dark:text-green-300',
+  },
+  blue: { name: 'Blue', className: 'border-blue-300 bg-blue-50 text-blue-700 dark:border-blue-800 dark:bg-blue-950 dark:text-blue-300' },
+  purple: {
+    name: 'Purple',
+    className: 'border-purple-300 bg-purple-50 text-purple-700 dark:border-purple-800 dark:bg-purple-950 dark:text-purple-300',
+  },
+  pink: { name: 'Pink', className: 'border-pink-300 bg-pink-50 text-pink-700 dark:border-pink-800 dark:bg-pink-950 dark:text-pink-300' },
+};
+
+const oneOf = <T extends string>(labels: Record<T, string>, value: string | null, fallback: T): T =>
+  value !== null && value in labels ? (value as T) : fallback;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const parseDate = (value: string | null) => (value && DATE_PATTERN.test(value) ? value : '');
+
+export const parseMessageQuery = (params: URLSearchParams): MessageQuery => ({
+  view: oneOf(MESSAGE_VIEW_LABELS, params.get('view'), DEFAULT_MESSAGE_QUERY.view),
+  search: params.get('q') ?? '',
+  status: oneOf(MESSAGE_STATUS_LABELS, params.get('status'), DEFAULT_MESSAGE_QUERY.status),
+  from: parseDate(params.get('from')),
+  to: parseDate(params.get('to')),
+  hasPhone: params.get('phone') === '1',
+  labelId: params.get('label') || null,
+  sort: oneOf(MESSAGE_SORT_LABELS, params.get('sort'), DEFAULT_MESSAGE_QUERY.sort),
+  page: Math.max(1, Number(params.get('page')) || 1),
+  layout: oneOf(MESSAGE_LAYOUT_LABELS, params.get('layout'), DEFAULT_MESSAGE_QUERY.layout),
+});
+
+// Only values that differ from the defaults end up in the URL
+export const toMessageSearchParams = (query: MessageQuery) => {
+  const params: Record<string, string> = {};
+  if (query.view !== DEFAULT_MESSAGE_QUERY.view) params.view = query.view;
+  if (query.search) params.q = query.search;
+  if (query.status !== DEFAULT_MESSAGE_QUERY.status) params.status = query.status;
+  if (query.from) params.from = query.from;
+  if (query.to) params.to = query.to;
+  if (query.hasPhone) params.phone = '1';
+  if (query.labelId) params.label = query.labelId;
+  if (query.sort !== DEFAULT_MESSAGE_QUERY.sort) params.sort = query.sort;
+  if (query.page > 1) params.page = String(query.page);
+  if (query.layout !== DEFAULT_MESSAGE_QUERY.layout) params.layout = query.layout;
+  return params;
+};
+
+// Whether anything beyond the view and page narrows the list
+export const isFilteredMessageQuery = (query: MessageQuery) =>
+  query.search.trim() !== '' ||
+  query.status !== 'all' ||
+  query.from !== '' ||
+  query.to !== '' ||
+  query.hasPhone ||
+  query.labelId !== null;
+
+export const formatMessageDate = (dateString?: string) => {
+  if (!dateString) return '—';
+  const date = new Date(dateString);
+  if (Number.isNaN(date.getTime())) return '—';
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
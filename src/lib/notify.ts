@@ -0,0 +1,57 @@
+import { toast } from 'sonner';
+import { getErrorMessage, isApiError } from '@/lib/api';
+
+// App-wide notifications, rendered by the <Toaster /> mounted in main.tsx
+
+interface NotifyOptions {
+  description?: string;
+  // Reuse an id to replace an existing toast instead of stacking a new one
+  id?: string;
+}
+
+interface UndoableOptions extends NotifyOptions {
+  onUndo: () => void;
+  duration?: number;
+}
+
+export const notify = {
+  success: (message: string, options: NotifyOptions = {}) => {
+    toast.success(message, options);
+  },
+
+  info: (message: string, options: NotifyOptions = {}) => {
+    toast.info(message, options);
+  },
+
+  /**
+   * Report a failure, preferring the ApiError's server message over `fallback`.
+   * 401s are skipped: the session flow already sends the user back to login.
+   */
+  error: (error: unknown, fallback = 'Something went wrong', options: NotifyOptions = {}) => {
+    if (isApiError(error) && error.isUnauthorized) return;
+
+    const fieldMessages = isApiError(error) ? Object.values(error.fieldErrors) : [];
+    toast.error(getErrorMessage(error, fallback), {
+      description: fieldMessages.length > 0 ? fieldMessages.join(' ') : undefined,
+      ...options,
+    });
+  },
+
+  // Success message with an Undo button; `onUndo` runs only if the user clicks it
+  undoable: (message: string, { onUndo, duration = 5000, ...options }: UndoableOptions) => {
+    toast.success(message, {
+      ...options,
+      duration,
+      action: { label: 'Undo', onClick: onUndo },
+    });
+  },
+
+  // Sticky warning with a single action button, e.g. "Stay signed in"
+  warning: (message: string, action: { label: string; onClick: () => void }, options: NotifyOptions = {}) => {
+    toast.warning(message, { ...options, duration: Infinity, action });
+  },
+
+  dismiss: (id?: string) => {
+    toast.dismiss(id);
+  },
+};
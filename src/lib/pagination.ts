@@ -0,0 +1,20 @@
+import type { PaginatedResponse } from '@/lib/types';
+
+// Slices an in-memory list into the same page shape the server-paginated endpoints return.
+// Out of range pages are clamped, so deleting the last row on a page doesn't strand the user.
+export const paginate = <T>(items: T[], page: number, pageSize: number): PaginatedResponse<T> => {
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  const currentPage = Math.min(Math.max(1, page), totalPages);
+  const start = (currentPage - 1) * pageSize;
+
+  return {
+    data: items.slice(start, start + pageSize),
+    pagination: {
+      currentPage,
+      totalPages,
+      totalItems: items.length,
+      hasNext: currentPage < totalPages,
+      hasPrev: currentPage > 1,
+    },
+  };
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PROJECT_QUERY,
+  canReorderProjects,
+  countProjectsByTab,
+  isFilteredProjectQuery,
+  queryProjects,
+  type ProjectQuery,
+} from '@/lib/projectQuery';
+import type { Project } from '@/lib/types';
+
+const project = (fields: Partial<Project> & Pick<Project, '_id'>): Project => ({
+  name: fields._id,
+  description: '',
+  thumbnail: 'https://img.example/cover.png',
+  demoLink: '',
+  sourceCodeLink: '',
+  status: 'published',
+  featured: false,
+  skillIds: [],
+  gallery: [],
+  ...fields,
+});
+
+const projects = [
+  project({
+    _id: 'shop',
+    name: 'Storefront',
+    description: 'React shop with Stripe checkout',
+    demoLink: 'https://shop.example',
+    skillIds: ['react'],
+    featured: true,
+    createdAt: '2024-03-01T00:00:00Z',
+  }),
+  project({ _id: 'blog', name: 'blog engine', sourceCodeLink: 'https://git.example/blog', status: 'draft', thumbnail: '' }),
+  project({
+    _id: 'api',
+    name: 'Booking API',
+    description: 'Node service for react clients',
+    skillIds: ['node', 'react'],
+    status: 'archived',
+    createdAt: '2023-05-01T00:00:00Z',
+  }),
+];
+
+const ids = (query: Partial<ProjectQuery>) =>
+  queryProjects(projects, { ...DEFAULT_PROJECT_QUERY, ...query }).map((match) => match._id);
+
+describe('queryProjects', () => {
+  it('keeps portfolio order by default', () => {
+    expect(ids({})).toEqual(['shop', 'blog', 'api']);
+  });
+
+  it('filters by status tab, with featured cutting across statuses', () => {
+    expect(ids({ tab: 'draft' })).toEqual(['blog']);
+    expect(ids({ tab: 'archived' })).toEqual(['api']);
+    expect(ids({ tab: 'featured' })).toEqual(['shop']);
+  });
+
+  it('needs every search word in the name or description', () => {
+    expect(ids({ search: 'REACT' })).toEqual(['shop', 'api']);
+    expect(ids({ search: '  react   node ' })).toEqual(['api']);
+    expect(ids({ search: 'react python' })).toEqual([]);
+  });
+
+  it('filters by skill and by every selected link filter', () => {
+    expect(ids({ skillId: 'react' })).toEqual(['shop', 'api']);
+    expect(ids({ filters: ['hasDemo'] })).toEqual(['shop']);
+    expect(ids({ filters: ['hasSource', 'missingThumbnail'] })).toEqual(['blog']);
+    expect(ids({ filters: ['hasDemo', 'hasSource'] })).toEqual([]);
+  });
+
+  it('sorts by name without regard to case', () => {
+    expect(ids({ sort: 'name-asc' })).toEqual(['blog', 'api', 'shop']);
+    expect(ids({ sort: 'name-desc' })).toEqual(['shop', 'api', 'blog']);
+  });
+
+  it('sorts undated projects last in both date orders', () => {
+    expect(ids({ sort: 'newest' })).toEqual(['shop', 'api', 'blog']);
+    expect(ids({ sort: 'oldest' })).toEqual(['api', 'shop', 'blog']);
+  });
+});
+
+describe('countProjectsByTab', () => {
+  it('counts every project under each tab it appears in', () => {
+    expect(countProjectsByTab(projects)).toEqual({ all: 3, published: 1, draft: 1, archived: 1, featured: 1 });
+  });
+});
+
+describe('canReorderProjects', () => {
+  it('only allows reordering the full list in portfolio order', () => {
+    expect(canReorderProjects(DEFAULT_PROJECT_QUERY)).toBe(true);
+    expect(canReorderProjects({ ...DEFAULT_PROJECT_QUERY, sort: 'newest' })).toBe(false);
+    expect(canReorderProjects({ ...DEFAULT_PROJECT_QUERY, search: 'shop' })).toBe(false);
+    expect(canReorderProjects({ ...DEFAULT_PROJECT_QUERY, skillId: 'react' })).toBe(false);
+  });
+
+  it("doesn't count a blank search or the sort as filtering", () => {
+    expect(isFilteredProjectQuery({ ...DEFAULT_PROJECT_QUERY, search: '   ', sort: 'name-asc' })).toBe(false);
+    expect(isFilteredProjectQuery({ ...DEFAULT_PROJECT_QUERY, filters: ['hasDemo'] })).toBe(true);
+  });
+});
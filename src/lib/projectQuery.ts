@@ -0,0 +1,129 @@
+import type { Project, ProjectStatus } from '@/lib/types';
+
+// Search, sort and filter state for the projects list. Everything runs client-side,
+// since the projects endpoint always returns the full portfolio.
+
+export type ProjectSort = 'manual' | 'newest' | 'oldest' | 'name-asc' | 'name-desc';
+export type ProjectFilter = 'hasDemo' | 'hasSource' | 'missingThumbnail';
+
+// Status tabs; 'featured' cuts across statuses
+export type ProjectTab = 'all' | ProjectStatus | 'featured';
+
+export interface ProjectQuery {
+  tab: ProjectTab;
+  search: string;
+  // Only projects tagged with this skill
+  skillId: string | null;
+  sort: ProjectSort;
+  // Every selected filter has to match
+  filters: ProjectFilter[];
+}
+
+export const DEFAULT_PROJECT_QUERY: ProjectQuery = {
+  tab: 'all',
+  search: '',
+  skillId: null,
+  sort: 'manual',
+  filters: [],
+};
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+export const PROJECT_TAB_LABELS: Record<ProjectTab, string> = {
+  all: 'All',
+  published: 'Published',
+  draft: 'Drafts',
+  archived: 'Archived',
+  featured: 'Featured',
+};
+
+export const PROJECT_SORT_LABELS: Record<ProjectSort, string> = {
+  manual: 'Portfolio order',
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  'name-asc': 'Name (A-Z)',
+  'name-desc': 'Name (Z-A)',
+};
+
+export const PROJECT_FILTER_LABELS: Record<ProjectFilter, string> = {
+  hasDemo: 'Has demo link',
+  hasSource: 'Has source link',
+  missingThumbnail: 'Missing thumbnail',
+};
+
+const matchesTab = (project: Project, tab: ProjectTab) => {
+  if (tab === 'all') return true;
+  if (tab === 'featured') return project.featured;
+  return project.status === tab;
+};
+
+// Number of projects under each tab, for the tab labels
+export const countProjectsByTab = (projects: Project[]) => {
+  const counts = Object.fromEntries(
+    (Object.keys(PROJECT_TAB_LABELS) as ProjectTab[]).map((tab) => [tab, 0]),
+  ) as Record<ProjectTab, number>;
+  for (const project of projects) {
+    for (const tab of Object.keys(counts) as ProjectTab[]) {
+      if (matchesTab(project, tab)) counts[tab] += 1;
+    }
+  }
+  return counts;
+};
+
+const FILTER_TESTS: Record<ProjectFilter, (project: Project) => boolean> = {
+  hasDemo: (project) => Boolean(project.demoLink),
+  hasSource: (project) => Boolean(project.sourceCodeLink),
+  missingThumbnail: (project) => !project.thumbnail,
+};
+
+// Every word of the search has to appear in the name or description
+const matchesSearch = (project: Project, words: string[]) => {
+  const text = `${project.name} ${project.description}`.toLowerCase();
+  return words.every((word) => text.includes(word));
+};
+
+const createdTime = (project: Project) => (project.createdAt ? Date.parse(project.createdAt) || 0 : 0);
+
+// Records without a creation date (older imports) sort after dated ones in both directions
+const byCreated = (direction: 1 | -1) => (a: Project, b: Project) => {
+  const aTime = createdTime(a);
+  const bTime = createdTime(b);
+  if (!aTime || !bTime) return Number(!aTime) - Number(!bTime);
+  return (aTime - bTime) * direction;
+};
+
+const compareProjects: Record<ProjectSort, (a: Project, b: Project) => number> = {
+  // The list already arrives in portfolio order
+  manual: () => 0,
+  newest: byCreated(-1),
+  oldest: byCreated(1),
+  'name-asc': (a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }),
+  'name-desc': (a, b) => b.name.localeCompare(a.name, undefined, { sensitivity: 'base' }),
+};
+
+// Whether the query hides any projects (sorting alone never does)
+export const isFilteredProjectQuery = (query: ProjectQuery) =>
+  query.tab !== 'all' || query.search.trim() !== '' || query.skillId !== null || query.filters.length > 0;
+
+// Drag reordering only makes sense while every project is shown in portfolio order
+export const canReorderProjects = (query: ProjectQuery) =>
+  query.sort === 'manual' && !isFilteredProjectQuery(query);
+
+export const queryProjects = (projects: Project[], query: ProjectQuery): Project[] => {
+  const words = query.search.toLowerCase().split(/\s+/).filter(Boolean);
+  const tests = query.filters.map((filter) => FILTER_TESTS[filter]);
+
+  return projects
+    .filter(
+      (project) =>
+        matchesTab(project, query.tab) &&
+        matchesSearch(project, words) &&
+        (query.skillId === null || project.skillIds.includes(query.skillId)) &&
+        tests.every((test) => test(project)),
+    )
+    .sort(compareProjects[query.sort]);
+};
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_STALE_TIME, QueryClient } from '@/lib/queryClient';
+
+// A promise with its resolve/reject exposed, to control when a fetch settles
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const noop = () => {};
+
+let client: QueryClient;
+
+beforeEach(() => {
+  client = new QueryClient();
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('QueryClient.fetch', () => {
+  it('shares one request between concurrent callers', async () => {
+    const fetcher = vi.fn().mockResolvedValue(['a']);
+    const [first, second] = await Promise.all([client.fetch(['items'], fetcher), client.fetch(['items'], fetcher)]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+    expect(client.getState(['items'])).toMatchObject({ data: ['a'], status: 'success', isFetching: false });
+  });
+
+  it('keeps cached data visible while refetching', async () => {
+    await client.fetch(['items'], async () => ['a']);
+    const next = deferred<string[]>();
+    const request = client.fetch(['items'], () => next.promise);
+
+    expect(client.getState(['items'])).toMatchObject({ data: ['a'], status: 'success', isFetching: true });
+    next.resolve(['a', 'b']);
+    await request;
+    expect(client.getQueryData(['items'])).toEqual(['a', 'b']);
+  });
+});
+
+describe('QueryClient.ensure', () => {
+  it('reuses fresh data and refetches once it goes stale', async () => {
+    const fetcher = vi.fn().mockResolvedValueOnce(['a']).mockResolvedValueOnce(['a', 'b']);
+    await client.ensure(['items'], fetcher);
+
+    expect(await client.ensure(['items'], fetcher)).toEqual(['a']);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(DEFAULT_STALE_TIME + 1);
+    expect(client.isStale(['items'])).toBe(true);
+    expect(await client.ensure(['items'], fetcher)).toEqual(['a', 'b']);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('refetches after the key is invalidated', async () => {
+    const fetcher = vi.fn().mockResolvedValue(['a']);
+    await client.ensure(['items', 1], fetcher);
+    await client.invalidate(['items']);
+
+    expect(client.isStale(['items', 1])).toBe(true);
+    await client.ensure(['items', 1], fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('QueryClient.invalidate', () => {
+  it('refetches rendered queries under the prefix right away', async () => {
+    const rendered = vi.fn().mockResolvedValue(['a']);
+    const hidden = vi.fn().mockResolvedValue(['b']);
+    const other = vi.fn().mockResolvedValue(['c']);
+    await client.fetch(['items', 1], rendered);
+    await client.fetch(['items', 2], hidden);
+    await client.fetch(['other'], other);
+    client.subscribe(['items', 1], noop);
+    client.subscribe(['other'], noop);
+
+    await client.invalidate(['items']);
+
+    expect(rendered).toHaveBeenCalledTimes(2);
+    expect(hidden).toHaveBeenCalledTimes(1);
+    expect(other).toHaveBeenCalledTimes(1);
+    expect(client.isStale(['items', 1])).toBe(false);
+    expect(client.isStale(['items', 2])).toBe(true);
+  });
+});
+
+describe('QueryClient.applyOptimistic', () => {
+  it('updates every cached query under the prefix', async () => {
+    await client.fetch(['items', 1], async () => [1]);
+    await client.fetch(['items', 2], async () => [2]);
+    await client.fetch(['other'], async () => [3]);
+
+    client.applyOptimistic<number[]>(['items'], (current) => [...current, 9]);
+
+    expect(client.getQueryData(['items', 1])).toEqual([1, 9]);
+    expect(client.getQueryData(['items', 2])).toEqual([2, 9]);
+    expect(client.getQueryData(['other'])).toEqual([3]);
+  });
+
+  it('ignores a response that was in flight before the update', async () => {
+    await client.fetch(['items'], async () => [1]);
+    const inFlight = deferred<number[]>();
+    const request = client.fetch(['items'], () => inFlight.promise);
+
+    client.applyOptimistic<number[]>(['items'], (current) => [...current, 2]);
+    inFlight.resolve([1]);
+    await request;
+
+    expect(client.getState(['items'])).toMatchObject({ data: [1, 2], isFetching: false });
+  });
+
+  it('restores the snapshot on rollback and refetches rendered queries', async () => {
+    const fetcher = vi.fn().mockResolvedValueOnce([1]).mockResolvedValueOnce([1, 3]);
+    await client.fetch(['items'], fetcher);
+    client.subscribe(['items'], noop);
+
+    const rollback = client.applyOptimistic<number[]>(['items'], (current) => [...current, 2]);
+    rollback();
+
+    expect(client.getQueryData(['items'])).toEqual([1]);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    await vi.waitFor(() => expect(client.getQueryData(['items'])).toEqual([1, 3]));
+  });
+});
+
+describe('QueryClient.clear', () => {
+  it('drops cached data and ignores requests still in flight', async () => {
+    await client.fetch(['items'], async () => [1]);
+    const inFlight = deferred<number[]>();
+    const request = client.fetch(['items'], () => inFlight.promise);
+
+    client.clear();
+    inFlight.resolve([2]);
+    await request;
+
+    expect(client.getState(['items'])).toMatchObject({ data: undefined, status: 'idle' });
+    expect(client.isStale(['items'])).toBe(true);
+  });
+});
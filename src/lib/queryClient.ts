@@ -0,0 +1,230 @@
+// Small query cache: keyed results with stale-while-revalidate, request de-duplication
+// and prefix-based invalidation. Components read it through the useQuery hook.
+
+import type { MessageQuery } from '@/lib/messages';
+
+export type QueryKey = readonly (string | number | boolean | null | undefined)[];
+
+export type QueryStatus = 'idle' | 'loading' | 'success' | 'error';
+
+export interface QueryState<T = unknown> {
+  data: T | undefined;
+  error: unknown;
+  status: QueryStatus;
+  isFetching: boolean;
+  updatedAt: number;
+}
+
+type Fetcher<T> = () => Promise<T>;
+type Listener = () => void;
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState;
+  fetcher?: Fetcher<unknown>;
+  promise?: Promise<unknown>;
+  // Bumped on every fetch so a slow, superseded response can't overwrite newer data
+  fetchId: number;
+  stale: boolean;
+  listeners: Set<Listener>;
+}
+
+// How long fetched data is considered fresh unless a query says otherwise
+export const DEFAULT_STALE_TIME = 30 * 1000;
+
+const initialState: QueryState = {
+  data: undefined,
+  error: undefined,
+  status: 'idle',
+  isFetching: false,
+  updatedAt: 0,
+};
+
+const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, index) => key[index] === part);
+
+export class QueryClient {
+  private entries = new Map<string, QueryEntry>();
+
+  private getEntry(key: QueryKey) {
+    const hash = hashKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { key, state: initialState, fetchId: 0, stale: true, listeners: new Set() };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  private setState(entry: QueryEntry, patch: Partial<QueryState>) {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    return this.getEntry(key).state as QueryState<T>;
+  }
+
+  getQueryData<T>(key: QueryKey): T | undefined {
+    return this.getState<T>(key).data;
+  }
+
+  subscribe(key: QueryKey, listener: Listener) {
+    const entry = this.getEntry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }
+
+  isStale(key: QueryKey, staleTime = DEFAULT_STALE_TIME) {
+    const entry = this.getEntry(key);
+    return entry.stale || entry.state.status !== 'success' || Date.now() - entry.state.updatedAt > staleTime;
+  }
+
+  /**
+   * Fetch the query, sharing the in-flight request with any concurrent caller.
+   * Cached data stays visible while the request runs (stale-while-revalidate).
+   */
+  fetch<T>(key: QueryKey, fetcher: Fetcher<T>): Promise<T> {
+    const entry = this.getEntry(key);
+    entry.fetcher = fetcher;
+
+    if (entry.promise) {
+      return entry.promise as Promise<T>;
+    }
+
+    const fetchId = ++entry.fetchId;
+    this.setState(entry, {
+      isFetching: true,
+      status: entry.state.status === 'success' ? 'success' : 'loading',
+    });
+
+    const promise = fetcher().then(
+      (data) => {
+        if (entry.fetchId === fetchId) {
+          entry.stale = false;
+          this.setState(entry, { data, error: undefined, status: 'success', isFetching: false, updatedAt: Date.now() });
+        }
+        return data;
+      },
+      (error) => {
+        if (entry.fetchId === fetchId) {
+          this.setState(entry, { error, status: 'error', isFetching: false });
+        }
+        throw error;
+      },
+    ).finally(() => {
+      if (entry.promise === promise) {
+        entry.promise = undefined;
+      }
+    });
+
+    entry.promise = promise;
+    return promise;
+  }
+
+  // Fetch only when there's no fresh data for the key
+  ensure<T>(key: QueryKey, fetcher: Fetcher<T>, staleTime = DEFAULT_STALE_TIME) {
+    if (!this.isStale(key, staleTime)) {
+      return Promise.resolve(this.getQueryData<T>(key) as T);
+    }
+    return this.fetch(key, fetcher);
+  }
+
+  // Replace cached data without a request (used for optimistic updates)
+  setQueryData<T>(key: QueryKey, updater: T | ((current: T | undefined) => T)) {
+    const entry = this.getEntry(key);
+    const data = typeof updater === 'function'
+      ? (updater as (current: T | undefined) => T)(entry.state.data as T | undefined)
+      : updater;
+    this.setState(entry, { data, status: 'success', error: undefined, updatedAt: Date.now() });
+  }
+
+  /**
+   * Apply `updater` to the cached data of every query under `prefix` and return a
+   * function that puts the previous data back if the mutation fails. The rollback
+   * also refetches, since the snapshot can predate other mutations that succeeded.
+   */
+  applyOptimistic<T>(prefix: QueryKey, updater: (current: T) => T) {
+    const snapshots: { entry: QueryEntry; state: QueryState }[] = [];
+
+    this.entries.forEach((entry) => {
+      if (!matchesPrefix(entry.key, prefix) || entry.state.data === undefined) return;
+
+      snapshots.push({ entry, state: entry.state });
+      // Ignore responses already in flight; they were requested before this change
+      entry.fetchId++;
+      entry.promise = undefined;
+      this.setState(entry, { data: updater(entry.state.data as T), isFetching: false });
+    });
+
+    return () => {
+      snapshots.forEach(({ entry, state }) => {
+        this.setState(entry, state);
+      });
+      this.invalidate(prefix);
+    };
+  }
+
+  /**
+   * Mark every query whose key starts with `prefix` as stale. Queries that are
+   * currently rendered refetch right away; the rest refetch when next used.
+   */
+  invalidate(prefix: QueryKey) {
+    const refetches: Promise<unknown>[] = [];
+
+    this.entries.forEach((entry) => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+
+      entry.stale = true;
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        // Drop any in-flight request so the refetch sees the mutation's result
+        entry.promise = undefined;
+        refetches.push(this.fetch(entry.key, entry.fetcher).catch(() => undefined));
+      }
+    });
+
+    return Promise.all(refetches).then(() => undefined);
+  }
+
+  // Forget everything, e.g. on logout
+  clear() {
+    this.entries.forEach((entry) => {
+      entry.fetchId++;
+      entry.promise = undefined;
+      entry.stale = true;
+      this.setState(entry, initialState);
+    });
+  }
+}
+
+export const queryClient = new QueryClient();
+
+// Query keys for each backend resource; invalidate a prefix to refresh everything under it
+export const queryKeys = {
+  projects: ['projects'] as const,
+  skills: ['skills'] as const,
+  skillCategories: ['skillCategories'] as const,
+  messages: ['messages'] as const,
+  messageLabels: ['messageLabels'] as const,
+  messagePage: (query: MessageQuery, limit: number) =>
+    [
+      'messages',
+      query.view,
+      query.status,
+      query.search.trim(),
+      query.from,
+      query.to,
+      query.hasPhone,
+      query.labelId,
+      query.sort,
+      query.page,
+      limit,
+    ] as const,
+  urls: ['urls'] as const,
+  urlPage: (page: number, limit: number) => ['urls', page, limit] as const,
+  linkHealth: (includeShortUrls: boolean) => ['linkHealth', includeShortUrls] as const,
+};
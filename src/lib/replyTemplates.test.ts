@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { fillReplyTemplate, unfillReplyTemplate } from '@/lib/replyTemplates';
+import type { ContactMessage } from '@/lib/types';
+
+const message = (name: string, subject: string) => ({ name, subject }) as ContactMessage;
+
+describe('unfillReplyTemplate', () => {
+  it('turns the sender name and subject back into placeholders', () => {
+    const sender = message('Ada', 'Website redesign');
+    const template = 'Hi {name},\n\nAbout "{subject}": happy to help.';
+    expect(unfillReplyTemplate(fillReplyTemplate(template, sender), sender)).toBe(template);
+  });
+
+  it('turns the no-subject fallback back into a placeholder', () => {
+    const sender = message('Ada', '');
+    const template = 'Re: {subject}';
+    expect(fillReplyTemplate(template, sender)).toBe('Re: (no subject)');
+    expect(unfillReplyTemplate(fillReplyTemplate(template, sender), sender)).toBe(template);
+  });
+
+  it('only replaces whole words', () => {
+    expect(unfillReplyTemplate('Hi Al, also Also and Alan', message('Al', ''))).toBe('Hi {name}, also Also and Alan');
+  });
+
+  it('leaves the text alone when the name or subject is empty', () => {
+    expect(unfillReplyTemplate('Thanks for writing', message('', ''))).toBe('Thanks for writing');
+    expect(unfillReplyTemplate('Thanks for writing', message('  ', ''))).toBe('Thanks for writing');
+  });
+
+  it('handles names with punctuation', () => {
+    expect(unfillReplyTemplate("Hi O'Brien (J.)", message("O'Brien (J.)", ''))).toBe('Hi {name}');
+  });
+});
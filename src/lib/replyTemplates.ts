@@ -0,0 +1,56 @@
+import type { ContactMessage } from '@/lib/types';
+
+export interface ReplyTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+}
+
+// Starting set, until templates are edited; `{name}` and `{subject}` come from the message
+export const DEFAULT_REPLY_TEMPLATES: ReplyTemplate[] = [
+  {
+    id: 'thanks',
+    name: 'Thanks for reaching out',
+    subject: 'Re: {subject}',
+    body: 'Hi {name},\n\nThanks for getting in touch! I\'ve read your message and will get back to you with more details shortly.\n\nBest regards',
+  },
+  {
+    id: 'availability',
+    name: 'Availability for work',
+    subject: 'Re: {subject}',
+    body: 'Hi {name},\n\nThanks for thinking of me. I\'m currently available for new projects and would be happy to set up a call to talk about what you need.\n\nBest regards',
+  },
+  {
+    id: 'decline',
+    name: 'Politely decline',
+    subject: 'Re: {subject}',
+    body: 'Hi {name},\n\nThank you for your message. Unfortunately I\'m not able to take this on at the moment, but I appreciate you reaching out.\n\nBest regards',
+  },
+];
+
+// Placeholders a template can use, with a short description for the editor
+export const REPLY_PLACEHOLDERS = {
+  '{name}': 'Sender name',
+  '{subject}': 'Original subject',
+};
+
+// Stands in for `{subject}` when the message has none
+const NO_SUBJECT = '(no subject)';
+
+export const fillReplyTemplate = (text: string, message: ContactMessage) =>
+  text.replaceAll('{name}', message.name).replaceAll('{subject}', message.subject || NO_SUBJECT);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Replaces whole-word matches only, so a short name like "Al" leaves "Also" alone
+const replaceWord = (text: string, word: string, placeholder: string) => {
+  const trimmed = word.trim();
+  if (!trimmed) return text;
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(trimmed)}(?![\\p{L}\\p{N}_])`, 'gu');
+  return text.replace(pattern, () => placeholder);
+};
+
+// Turns a filled-in draft back into a template; the subject goes first since it may contain the name
+export const unfillReplyTemplate = (text: string, message: ContactMessage) =>
+  replaceWord(replaceWord(text, message.subject || NO_SUBJECT, '{subject}'), message.name, '{name}');
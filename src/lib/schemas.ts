@@ -0,0 +1,220 @@
+import { z } from 'zod';
+
+// Runtime schemas for every payload the backend sends us.
+// Responses are parsed against these in lib/api.ts and then mapped onto the models in lib/types.ts.
+
+// Optional text fields come back as missing, null or '' depending on how the record was created
+const optionalText = z.string().nullish().transform((value) => value ?? '');
+
+// Only published projects appear on the public site
+export const projectStatusSchema = z.enum(['draft', 'published', 'archived']);
+
+export const galleryImageSchema = z.object({
+  url: z.string(),
+  alt: optionalText,
+});
+
+export const projectSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  description: optionalText,
+  thumbnail: optionalText,
+  demoLink: optionalText,
+  sourceCodeLink: optionalText,
+  // Projects created before statuses existed are already live
+  status: projectStatusSchema.default('published'),
+  featured: z.boolean().default(false),
+  // Skill ids, or the skills themselves when the backend populates them
+  skills: z.array(z.union([z.string(), z.object({ _id: z.string() })])).default([]),
+  gallery: z.array(galleryImageSchema).default([]),
+  order: z.number().optional(),
+  createdAt: z.string().optional(),
+});
+
+export const skillLevelSchema = z.enum(['beginner', 'intermediate', 'advanced', 'expert']);
+
+export const skillSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  image: optionalText,
+  // Category id, or the category itself when the backend populates it
+  category: z.union([z.string(), z.object({ _id: z.string() })]).nullish(),
+  level: skillLevelSchema.nullish(),
+  yearsOfExperience: z.number().nullish(),
+  order: z.number().optional(),
+});
+
+export const skillCategorySchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  order: z.number().optional(),
+});
+
+export const pipelineStatusSchema = z.enum(['new', 'contacted', 'in-discussion', 'won', 'lost']);
+
+export const labelColorSchema = z.enum(['gray', 'red', 'orange', 'green', 'blue', 'purple', 'pink']);
+
+export const messageLabelSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  color: labelColorSchema.catch('gray'),
+});
+
+export const messageReplySchema = z.object({
+  _id: z.string(),
+  subject: optionalText,
+  body: z.string(),
+  sentAt: z.string(),
+});
+
+export const contactMessageSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  phoneNo: z.string().nullish().transform((value) => value || undefined),
+  subject: optionalText,
+  message: optionalText,
+  createdAt: z.string().optional(),
+  isRead: z.boolean().optional(),
+  isArchived: z.boolean().optional(),
+  isSpam: z.boolean().optional(),
+  // Label ids, or the labels themselves when the backend populates them
+  labels: z.array(z.union([z.string(), z.object({ _id: z.string() })])).default([]),
+  pipelineStatus: pipelineStatusSchema.catch('new'),
+  replies: z.array(messageReplySchema).default([]),
+});
+
+export const shortenedUrlSchema = z.object({
+  _id: z.string(),
+  shortenUrl: z.string(),
+  fullUrl: z.string(),
+  clicks: z.number().default(0),
+  userId: z.string().optional(),
+  isDeleted: z.boolean().optional(),
+  createdAt: z.string().optional(),
+});
+
+// Pagination block as sent by the backend (`/url` list)
+const pageInfoSchema = z.object({
+  currentPage: z.number(),
+  totalPages: z.number(),
+  hasNextPage: z.boolean(),
+  hasPrevPage: z.boolean(),
+});
+
+export const paginationSchema = pageInfoSchema.extend({
+  totalUrls: z.number(),
+});
+
+// The contact list pages the same way, but counts messages
+export const messagePaginationSchema = pageInfoSchema.extend({
+  totalMessages: z.number(),
+});
+
+// Totals across the whole inbox, regardless of the current filters
+export const messageCountsSchema = z.object({
+  inbox: z.number(),
+  unread: z.number(),
+  archived: z.number(),
+  spam: z.number().default(0),
+});
+
+export const messageListSchema = z.object({
+  messages: z.array(contactMessageSchema),
+  pagination: messagePaginationSchema,
+  counts: messageCountsSchema,
+});
+
+export const urlListSchema = z.object({
+  urls: z.array(shortenedUrlSchema),
+  pagination: paginationSchema,
+});
+
+export const loginResponseSchema = z.object({
+  success: z.boolean().optional(),
+  message: z.string().optional(),
+  token: z.string().optional(),
+});
+
+// Result of the backend probing one link; `finalUrl` is where redirects ended up
+export const linkCheckSchema = z.object({
+  url: z.string(),
+  statusCode: z.number().nullish(),
+  finalUrl: z.string().nullish(),
+  error: z.string().nullish(),
+});
+
+// Upload endpoints answer `{ url }` or `{ data: { url } }`
+export const uploadResponseSchema = z
+  .object({
+    url: z.string().optional(),
+    data: z.object({ url: z.string() }).optional(),
+  })
+  .transform((body) => body.url ?? body.data?.url ?? '')
+  .refine((url) => url !== '', 'No image URL returned from server');
+
+// Standard `{ success, message, data }` envelope wrapped around most responses
+export const envelopeSchema = <T extends z.ZodType>(data: T) =>
+  z.object({
+    success: z.boolean().optional(),
+    message: z.string().optional(),
+    data,
+  });
+
+// Form schemas, validated client-side before anything is sent
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Repository links must point at an owner/repo on a known code host
+const SOURCE_HOSTS = ['github.com', 'gitlab.com', 'bitbucket.org'];
+const isRepositoryUrl = (value: string) => {
+  const url = new URL(value);
+  const host = url.hostname.replace(/^www\./, '');
+  const [owner, repo] = url.pathname.split('/').filter(Boolean);
+  return SOURCE_HOSTS.includes(host) && Boolean(owner && repo);
+};
+
+const optionalUrl = z
+  .string()
+  .trim()
+  .max(2048, 'URL must be 2048 characters or fewer')
+  .refine((value) => value === '' || isHttpUrl(value), 'Enter a valid URL starting with http:// or https://');
+
+export const PROJECT_DESCRIPTION_MAX_LENGTH = 5000;
+
+export const projectFormSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Project title is required')
+    .max(100, 'Project title must be 100 characters or fewer'),
+  // Markdown source
+  description: z
+    .string()
+    .trim()
+    .min(1, 'Description is required')
+    .max(PROJECT_DESCRIPTION_MAX_LENGTH, `Description must be ${PROJECT_DESCRIPTION_MAX_LENGTH} characters or fewer`),
+  thumbnail: optionalUrl,
+  demoLink: optionalUrl,
+  sourceCodeLink: optionalUrl.refine(
+    // Malformed URLs are already reported by optionalUrl
+    (value) => value === '' || !isHttpUrl(value) || isRepositoryUrl(value),
+    'Link to a repository, e.g. https://github.com/user/repo',
+  ),
+  status: projectStatusSchema,
+  featured: z.boolean(),
+  skillIds: z.array(z.string()),
+  gallery: z.array(
+    z.object({
+      url: z.string(),
+      alt: z.string().trim().max(200, 'Alt text must be 200 characters or fewer'),
+    }),
+  ),
+});
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  EXPIRY_WARNING_MS,
+  buildLoginPath,
+  getSafeReturnPath,
+  onSessionEvent,
+  startSession,
+  watchTokenExpiry,
+} from '@/lib/session';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unsigned JWT carrying only an `exp` claim
+const tokenExpiringAt = (expiresAt: number) => {
+  const payload = btoa(JSON.stringify({ exp: Math.floor(expiresAt / 1000) }))
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+  return `header.${payload}.signature`;
+};
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('watchTokenExpiry', () => {
+  it('waits out tokens that expire further off than one timer can', () => {
+    const expiresAt = Date.now() + 60 * DAY_MS;
+    startSession(tokenExpiringAt(expiresAt));
+    const onExpired = vi.fn();
+    const onEvent = vi.fn();
+    const unsubscribe = onSessionEvent(onEvent);
+    const stop = watchTokenExpiry(onExpired);
+
+    vi.advanceTimersByTime(30 * DAY_MS);
+    expect(onEvent).not.toHaveBeenCalled();
+    expect(onExpired).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(30 * DAY_MS - EXPIRY_WARNING_MS);
+    expect(onEvent).toHaveBeenCalledWith({ type: 'expiring', expiresAt });
+    expect(onExpired).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(EXPIRY_WARNING_MS);
+    expect(onExpired).toHaveBeenCalledOnce();
+
+    stop();
+    unsubscribe();
+  });
+
+  it('stops both timers on cleanup', () => {
+    startSession(tokenExpiringAt(Date.now() + 40 * DAY_MS));
+    const onExpired = vi.fn();
+    const stop = watchTokenExpiry(onExpired);
+
+    vi.advanceTimersByTime(30 * DAY_MS);
+    stop();
+    vi.advanceTimersByTime(30 * DAY_MS);
+    expect(onExpired).not.toHaveBeenCalled();
+  });
+
+  it('warns straight away when the token is about to expire', () => {
+    const expiresAt = Date.now() + EXPIRY_WARNING_MS / 2;
+    startSession(tokenExpiringAt(expiresAt));
+    const onEvent = vi.fn();
+    const unsubscribe = onSessionEvent(onEvent);
+    const onExpired = vi.fn();
+    const stop = watchTokenExpiry(onExpired);
+
+    expect(onEvent).toHaveBeenCalledWith({ type: 'expiring', expiresAt });
+    vi.advanceTimersByTime(EXPIRY_WARNING_MS / 2);
+    expect(onExpired).toHaveBeenCalledOnce();
+
+    stop();
+    unsubscribe();
+  });
+});
+
+describe('getSafeReturnPath', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { location: { origin: 'https://dashboard.example' } });
+  });
+
+  it('keeps in-app paths with their query and hash', () => {
+    expect(getSafeReturnPath('/projects?status=draft#top')).toBe('/projects?status=draft#top');
+    expect(getSafeReturnPath('/messages/abc')).toBe('/messages/abc');
+  });
+
+  it('falls back to the dashboard without a path', () => {
+    expect(getSafeReturnPath(null)).toBe('/');
+    expect(getSafeReturnPath('')).toBe('/');
+  });
+
+  it.each(['//evil.example', '/\\evil.example', '/\\/evil.example', 'https://evil.example/projects', 'javascript:alert(1)'])(
+    'rejects %s',
+    (returnTo) => {
+      expect(getSafeReturnPath(returnTo)).toBe('/');
+    },
+  );
+
+  it('rejects the login page itself', () => {
+    expect(getSafeReturnPath('/login')).toBe('/');
+    expect(getSafeReturnPath('/login?returnTo=/projects')).toBe('/');
+  });
+
+  it('only puts safe paths in the login URL', () => {
+    expect(buildLoginPath('/skills')).toBe('/login?returnTo=%2Fskills');
+    expect(buildLoginPath('/\\evil.example')).toBe('/login');
+  });
+});
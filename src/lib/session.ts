@@ -0,0 +1,144 @@
+// Auth session helpers: token storage, JWT expiry tracking and session lifecycle events
+
+const TOKEN_KEY = 'authToken';
+const AUTH_FLAG_KEY = 'isAuthenticated';
+
+// How long before the token expires we warn the user
+export const EXPIRY_WARNING_MS = 2 * 60 * 1000;
+
+export type SessionEvent =
+  | { type: 'expiring'; expiresAt: number }
+  | { type: 'refreshed'; expiresAt: number | null }
+  | { type: 'expired' };
+
+type SessionListener = (event: SessionEvent) => void;
+
+const listeners = new Set<SessionListener>();
+
+export const onSessionEvent = (listener: SessionListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const emit = (event: SessionEvent) => {
+  listeners.forEach((listener) => listener(event));
+};
+
+export const getToken = () => localStorage.getItem(TOKEN_KEY);
+
+export const startSession = (token?: string) => {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+  }
+  localStorage.setItem(AUTH_FLAG_KEY, 'true');
+};
+
+export const updateToken = (token: string) => {
+  localStorage.setItem(TOKEN_KEY, token);
+  emit({ type: 'refreshed', expiresAt: getTokenExpiry(token) });
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(AUTH_FLAG_KEY);
+};
+
+// Ends the session because the server (or the token itself) says it's no longer valid
+export const expireSession = () => {
+  const wasAuthenticated = localStorage.getItem(AUTH_FLAG_KEY) === 'true';
+  clearSession();
+  if (wasAuthenticated) {
+    emit({ type: 'expired' });
+  }
+};
+
+/**
+ * Read the `exp` claim (as a ms timestamp) from a JWT without verifying it.
+ * Returns null for opaque tokens or tokens without an expiry.
+ */
+export const getTokenExpiry = (token: string | null): number | null => {
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')));
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether the stored session can still be used: the user logged in and
+ * the token (when it carries an expiry) hasn't run out yet.
+ */
+export const hasActiveSession = () => {
+  if (localStorage.getItem(AUTH_FLAG_KEY) !== 'true') return false;
+  const expiresAt = getTokenExpiry(getToken());
+  return expiresAt === null || expiresAt > Date.now();
+};
+
+// Longest delay setTimeout accepts (~24.8 days); larger values overflow and fire at once
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Runs `callback` at the timestamp `at`, re-arming in steps when it's too far off for one timer
+const scheduleAt = (at: number, callback: () => void) => {
+  let timer: ReturnType<typeof setTimeout>;
+  const arm = () => {
+    const delay = at - Date.now();
+    timer = delay > MAX_TIMER_DELAY_MS ? setTimeout(arm, MAX_TIMER_DELAY_MS) : setTimeout(callback, Math.max(delay, 0));
+  };
+  arm();
+  return () => clearTimeout(timer);
+};
+
+/**
+ * Schedule the expiry warning and expiry callbacks for the current token.
+ * Returns a cleanup function; call it again after the token changes.
+ */
+export const watchTokenExpiry = (onExpired: () => void) => {
+  const expiresAt = getTokenExpiry(getToken());
+  if (expiresAt === null) return () => {};
+
+  const cancels: (() => void)[] = [];
+  const untilExpiry = expiresAt - Date.now();
+
+  if (untilExpiry > EXPIRY_WARNING_MS) {
+    cancels.push(scheduleAt(expiresAt - EXPIRY_WARNING_MS, () => emit({ type: 'expiring', expiresAt })));
+  } else if (untilExpiry > 0) {
+    emit({ type: 'expiring', expiresAt });
+  }
+  cancels.push(scheduleAt(expiresAt, onExpired));
+
+  return () => cancels.forEach((cancel) => cancel());
+};
+
+export const LOGIN_PATH = '/login';
+
+/**
+ * Only accept in-app paths as a post-login destination, so a crafted
+ * `?returnTo=https://evil.example` (or `//evil.example`, `/\evil.example`)
+ * link can't bounce users off-site. The path is resolved the way the browser would.
+ */
+export const getSafeReturnPath = (returnTo: string | null) => {
+  if (!returnTo) return '/';
+
+  const { origin } = window.location;
+  let url: URL;
+  try {
+    url = new URL(returnTo, origin);
+  } catch {
+    return '/';
+  }
+  if (url.origin !== origin || url.pathname.startsWith(LOGIN_PATH)) return '/';
+  return `${url.pathname}${url.search}${url.hash}`;
+};
+
+// Login URL that brings the user back to `returnTo` once they've signed in
+export const buildLoginPath = (returnTo: string) => {
+  const safePath = getSafeReturnPath(returnTo);
+  return safePath === '/' ? LOGIN_PATH : `${LOGIN_PATH}?returnTo=${encodeURIComponent(safePath)}`;
+};
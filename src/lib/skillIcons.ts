@@ -0,0 +1,120 @@
+import {
+  siAngular,
+  siAnsible,
+  siAstro,
+  siBootstrap,
+  siBun,
+  siC,
+  siCloudflare,
+  siCplusplus,
+  siCss,
+  siCypress,
+  siDart,
+  siDeno,
+  siDjango,
+  siDocker,
+  siDotnet,
+  siElectron,
+  siExpress,
+  siFastapi,
+  siFigma,
+  siFirebase,
+  siFlask,
+  siFlutter,
+  siGit,
+  siGithub,
+  siGithubactions,
+  siGitlab,
+  siGo,
+  siGooglecloud,
+  siGraphql,
+  siHtml5,
+  siJavascript,
+  siJenkins,
+  siJest,
+  siJira,
+  siKotlin,
+  siKubernetes,
+  siLaravel,
+  siLinux,
+  siMongodb,
+  siMysql,
+  siNestjs,
+  siNetlify,
+  siNextdotjs,
+  siNginx,
+  siNodedotjs,
+  siNpm,
+  siNuxt,
+  siOpenjdk,
+  siPhp,
+  siPnpm,
+  siPostgresql,
+  siPostman,
+  siPrisma,
+  siPython,
+  siReact,
+  siRedis,
+  siRedux,
+  siRemix,
+  siRuby,
+  siRust,
+  siSass,
+  siSelenium,
+  siSpring,
+  siSqlite,
+  siStorybook,
+  siSupabase,
+  siSvelte,
+  siSwift,
+  siTailwindcss,
+  siTerraform,
+  siThreedotjs,
+  siTypescript,
+  siVercel,
+  siVite,
+  siVitest,
+  siVuedotjs,
+  siWebpack,
+  type SimpleIcon,
+} from 'simple-icons';
+
+// Technology logos bundled with the dashboard, so common skills don't need an uploaded image.
+// Only these are imported, which keeps the rest of Simple Icons out of the bundle.
+export const SKILL_ICONS: SimpleIcon[] = [
+  siJavascript, siTypescript, siPython, siOpenjdk, siGo, siRust, siC, siCplusplus, siPhp, siRuby,
+  siKotlin, siSwift, siDart, siHtml5, siCss, siSass,
+  siReact, siNextdotjs, siRemix, siVuedotjs, siNuxt, siAngular, siSvelte, siAstro, siRedux,
+  siTailwindcss, siBootstrap, siThreedotjs, siFlutter, siElectron,
+  siNodedotjs, siDeno, siBun, siExpress, siNestjs, siDjango, siFlask, siFastapi, siSpring, siLaravel,
+  siDotnet, siGraphql, siPrisma,
+  siMongodb, siPostgresql, siMysql, siSqlite, siRedis, siFirebase, siSupabase,
+  siDocker, siKubernetes, siTerraform, siAnsible, siNginx, siLinux, siGooglecloud, siCloudflare,
+  siVercel, siNetlify,
+  siGit, siGithub, siGitlab, siGithubactions, siJenkins, siNpm, siPnpm, siVite, siWebpack,
+  siJest, siVitest, siCypress, siSelenium, siStorybook, siPostman, siFigma, siJira,
+].sort((a, b) => a.title.localeCompare(b.title));
+
+// "Node.js", "nodejs" and "node" should all find the same icon
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9+#]/g, '');
+
+export const searchSkillIcons = (query: string) => {
+  const needle = normalize(query);
+  if (!needle) return SKILL_ICONS;
+  return SKILL_ICONS.filter((icon) => normalize(icon.title).includes(needle) || icon.slug.includes(needle));
+};
+
+// Titles like "AT&T" would otherwise make the SVG invalid XML
+const XML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' };
+const escapeXml = (text: string) => text.replace(/[&<>"]/g, (char) => XML_ENTITIES[char]);
+
+/**
+ * Turns a bundled icon into an SVG file in its brand colour, so it's uploaded
+ * and stored exactly like a custom icon image.
+ */
+export const skillIconToFile = (icon: SimpleIcon) => {
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" role="img" viewBox="0 0 24 24">` +
+    `<title>${escapeXml(icon.title)}</title><path fill="#${icon.hex}" d="${icon.path}"/></svg>`;
+  return new File([svg], `${icon.slug}.svg`, { type: 'image/svg+xml' });
+};
@@ -0,0 +1,48 @@
+import type { Skill, SkillCategory, SkillLevel } from '@/lib/types';
+
+export const SKILL_LEVEL_LABELS: Record<SkillLevel, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+  expert: 'Expert',
+};
+
+// Suggestions offered when creating the first categories
+export const SUGGESTED_SKILL_CATEGORIES = ['Languages', 'Frameworks', 'Tools', 'Cloud', 'Databases'];
+
+// Key of the group holding skills without a (known) category
+export const UNCATEGORIZED_KEY = 'uncategorized';
+
+export interface SkillGroup {
+  key: string;
+  name: string;
+  skills: Skill[];
+}
+
+/**
+ * Groups skills under their categories, in category order, keeping the skill order
+ * within each group. Uncategorized skills come last; empty categories are kept so
+ * every category still gets a heading.
+ */
+export const groupSkillsByCategory = (skills: Skill[], categories: SkillCategory[]): SkillGroup[] => {
+  const groups = categories.map((category) => ({ key: category._id, name: category.name, skills: [] as Skill[] }));
+  const byKey = new Map(groups.map((group) => [group.key, group]));
+  const uncategorized: SkillGroup = { key: UNCATEGORIZED_KEY, name: 'Uncategorized', skills: [] };
+
+  for (const skill of skills) {
+    const group = (skill.categoryId && byKey.get(skill.categoryId)) || uncategorized;
+    group.skills.push(skill);
+  }
+
+  return uncategorized.skills.length > 0 ? [...groups, uncategorized] : groups;
+};
+
+// e.g. "Advanced · 4 yrs"
+export const describeSkillExperience = (skill: Skill) => {
+  const parts: string[] = [];
+  if (skill.level) parts.push(SKILL_LEVEL_LABELS[skill.level]);
+  if (skill.yearsOfExperience !== null) {
+    parts.push(`${skill.yearsOfExperience} yr${skill.yearsOfExperience !== 1 ? 's' : ''}`);
+  }
+  return parts.join(' · ');
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { SPAM_SCORE_THRESHOLD, assessMessages } from '@/lib/spam';
+import type { ContactMessage } from '@/lib/types';
+
+let nextId = 0;
+const message = (fields: Partial<ContactMessage>): ContactMessage => ({
+  _id: `m${nextId++}`,
+  name: 'Ada',
+  email: 'ada@example.com',
+  subject: 'Hello',
+  message: 'I enjoyed your portfolio and would like to talk about a project.',
+  isRead: false,
+  isArchived: false,
+  isSpam: false,
+  labelIds: [],
+  pipelineStatus: 'new',
+  replies: [],
+  ...fields,
+});
+
+const assess = (fields: Partial<ContactMessage>) => {
+  const target = message(fields);
+  return assessMessages([target]).get(target._id)!;
+};
+
+describe('assessMessages', () => {
+  it('gives an ordinary enquiry a clean score', () => {
+    expect(assess({})).toEqual({ score: 0, reasons: [], likelySpam: false });
+  });
+
+  it('counts a single link without flagging the message', () => {
+    const result = assess({ message: 'My current site is https://ada.example, can you redo it?' });
+    expect(result).toEqual({ score: 1, reasons: ['1 link'], likelySpam: false });
+  });
+
+  it('flags three or more links on their own', () => {
+    const result = assess({ message: 'See http://a.example http://b.example and www.c.example' });
+    expect(result.score).toBe(SPAM_SCORE_THRESHOLD);
+    expect(result.reasons).toEqual(['3 links']);
+    expect(result.likelySpam).toBe(true);
+  });
+
+  it('scores spam phrases in the subject and body, capped at three', () => {
+    const result = assess({
+      subject: 'Rank your website',
+      message: 'Buy backlinks, bitcoin and casino traffic. Act now!',
+    });
+    expect(result.score).toBe(3);
+    expect(result.reasons).toEqual(['Spam phrases: "backlinks", "rank your website", "bitcoin", "casino", "act now"']);
+    expect(result.likelySpam).toBe(true);
+  });
+
+  it('reaches the threshold when signals add up', () => {
+    expect(assess({ message: 'Improve your SEO: https://seo.example' })).toMatchObject({ score: 2, likelySpam: false });
+    expect(assess({ message: 'Improve your SEO: https://seo.example', email: 'bob@Mailinator.com' })).toEqual({
+      score: 4,
+      reasons: ['1 link', 'Spam phrases: "seo"', 'Disposable email domain (mailinator.com)'],
+      likelySpam: true,
+    });
+  });
+
+  it('only matches phrases as whole words', () => {
+    expect(assess({ subject: 'Trip to Seoul', message: 'Please contact now about the casinos project.' })).toMatchObject({
+      score: 0,
+      likelySpam: false,
+    });
+  });
+
+  it('scores copies of the same body within the batch', () => {
+    const first = message({ message: 'Great   site!  Reply ASAP' });
+    const second = message({ message: 'great site! reply asap' });
+    const other = message({});
+    const results = assessMessages([first, second, other]);
+
+    expect(results.get(first._id)).toEqual({ score: 2, reasons: ['Same text as 1 other message'], likelySpam: false });
+    expect(results.get(second._id)?.score).toBe(2);
+    expect(results.get(other._id)?.score).toBe(0);
+  });
+
+  it("doesn't treat empty bodies as duplicates", () => {
+    const results = assessMessages([message({ message: '' }), message({ message: '  ' })]);
+    expect([...results.values()].map((result) => result.score)).toEqual([0, 0]);
+  });
+});
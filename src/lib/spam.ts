@@ -0,0 +1,116 @@
+import type { ContactMessage } from '@/lib/types';
+
+// Client-side spam heuristics. Each signal adds to a score, and anything at or above
+// the threshold is flagged for review; nothing is moved to Spam without the admin.
+
+export const SPAM_SCORE_THRESHOLD = 3;
+
+const SPAM_PHRASES = [
+  'seo',
+  'backlinks',
+  'guest post',
+  'first page of google',
+  'rank your website',
+  'increase your traffic',
+  'crypto',
+  'bitcoin',
+  'forex',
+  'casino',
+  'viagra',
+  'payday loan',
+  'make money',
+  'work from home',
+  'limited time offer',
+  'act now',
+  'click here',
+  '100% free',
+  'risk-free',
+  'congratulations, you',
+];
+
+const DISPOSABLE_EMAIL_DOMAINS = new Set([
+  '10minutemail.com',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'mailinator.com',
+  'maildrop.cc',
+  'mintemail.com',
+  'sharklasers.com',
+  'temp-mail.org',
+  'tempmail.com',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com',
+]);
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const PHRASE_PATTERNS = SPAM_PHRASES.map((phrase) => ({
+  phrase,
+  pattern: new RegExp(`(?:^|\\W)${escapeRegExp(phrase)}(?:$|\\W)`, 'i'),
+}));
+
+export interface SpamAssessment {
+  score: number;
+  // Human-readable signals, e.g. "4 links"
+  reasons: string[];
+  likelySpam: boolean;
+}
+
+// Collapses whitespace and case so resent copies of a body compare equal
+const normalizeBody = (body: string) => body.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const assessMessage = (message: ContactMessage, duplicateCount: number): SpamAssessment => {
+  const reasons: string[] = [];
+  let score = 0;
+  const text = `${message.subject}\n${message.message}`;
+
+  const links = text.match(LINK_PATTERN)?.length ?? 0;
+  if (links > 0) {
+    score += links >= 3 ? 3 : 1;
+    reasons.push(`${links} link${links !== 1 ? 's' : ''}`);
+  }
+
+  const phrases = PHRASE_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ phrase }) => phrase);
+  if (phrases.length > 0) {
+    score += Math.min(phrases.length, 3);
+    reasons.push(`Spam phrases: ${phrases.map((phrase) => `"${phrase}"`).join(', ')}`);
+  }
+
+  const domain = message.email.split('@').pop()?.toLowerCase() ?? '';
+  if (DISPOSABLE_EMAIL_DOMAINS.has(domain)) {
+    score += 2;
+    reasons.push(`Disposable email domain (${domain})`);
+  }
+
+  if (duplicateCount > 0) {
+    score += 2;
+    reasons.push(`Same text as ${duplicateCount} other message${duplicateCount !== 1 ? 's' : ''}`);
+  }
+
+  return { score, reasons, likelySpam: score >= SPAM_SCORE_THRESHOLD };
+};
+
+/**
+ * Scores a batch of messages (usually the page on screen). Duplicate bodies are
+ * only detected within the batch.
+ */
+export const assessMessages = (messages: ContactMessage[]) => {
+  const bodyCounts = new Map<string, number>();
+  for (const message of messages) {
+    const body = normalizeBody(message.message);
+    if (body) bodyCounts.set(body, (bodyCounts.get(body) ?? 0) + 1);
+  }
+
+  return new Map(
+    messages.map((message) => {
+      const body = normalizeBody(message.message);
+      const duplicates = body ? (bodyCounts.get(body) ?? 1) - 1 : 0;
+      return [message._id, assessMessage(message, duplicates)];
+    }),
+  );
+};
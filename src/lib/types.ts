@@ -0,0 +1,158 @@
+// Shared resource types used by the API client and the dashboard components.
+// These are the UI models; the serializers in lib/api.ts translate them to and from the backend's payloads.
+import type { z } from 'zod';
+import type {
+  labelColorSchema,
+  loginResponseSchema,
+  pipelineStatusSchema,
+  projectFormSchema,
+  projectStatusSchema,
+  skillLevelSchema,
+} from '@/lib/schemas';
+
+export type ProjectStatus = z.infer<typeof projectStatusSchema>;
+export type SkillLevel = z.infer<typeof skillLevelSchema>;
+export type PipelineStatus = z.infer<typeof pipelineStatusSchema>;
+export type LabelColor = z.infer<typeof labelColorSchema>;
+
+export interface GalleryImage {
+  url: string;
+  // Describes the image for screen readers on the public site
+  alt: string;
+}
+
+export interface Project {
+  _id: string;
+  name: string;
+  description: string;
+  thumbnail: string;
+  demoLink: string;
+  sourceCodeLink: string;
+  status: ProjectStatus;
+  // Highlighted at the top of the public portfolio
+  featured: boolean;
+  // Tech stack, as ids of skills from the skills list
+  skillIds: string[];
+  // Extra screenshots; the cover is whichever one matches `thumbnail`
+  gallery: GalleryImage[];
+  // Position on the public portfolio, lowest first
+  order?: number;
+  createdAt?: string;
+}
+
+export interface Skill {
+  _id: string;
+  name: string;
+  image: string;
+  // Null for skills that haven't been sorted into a category
+  categoryId: string | null;
+  level: SkillLevel | null;
+  yearsOfExperience: number | null;
+  order?: number;
+}
+
+// Heading the public skills section groups skills under, e.g. "Languages"
+export interface SkillCategory {
+  _id: string;
+  name: string;
+  order?: number;
+}
+
+export interface ContactMessage {
+  _id: string;
+  name: string;
+  email: string;
+  phoneNo?: string;
+  subject: string;
+  message: string;
+  createdAt?: string;
+  isRead: boolean;
+  // Archived messages leave the inbox but aren't deleted
+  isArchived: boolean;
+  // Quarantined in the Spam view, out of the inbox and archive
+  isSpam: boolean;
+  labelIds: string[];
+  // Where the sender stands as a lead, from first contact to won or lost
+  pipelineStatus: PipelineStatus;
+  // Replies sent from the dashboard, oldest first
+  replies: MessageReply[];
+}
+
+export interface MessageReply {
+  _id: string;
+  subject: string;
+  body: string;
+  sentAt: string;
+}
+
+export type MessageReplyInput = Pick<MessageReply, 'subject' | 'body'>;
+
+// Inbox flags changed together on one or more messages
+export type MessagePatch = Partial<
+  Pick<ContactMessage, 'isRead' | 'isArchived' | 'isSpam' | 'labelIds' | 'pipelineStatus'>
+>;
+
+// User-defined tag for messages, e.g. "Job offer" or "Freelance"
+export interface MessageLabel {
+  _id: string;
+  name: string;
+  color: LabelColor;
+}
+
+export type MessageLabelInput = Omit<MessageLabel, '_id'>;
+
+export interface ShortenedUrl {
+  _id: string;
+  shortenUrl: string;
+  fullUrl: string;
+  clicks: number;
+  isDeleted?: boolean;
+  createdAt?: string;
+}
+
+export type LinkHealthState = 'ok' | 'redirect' | 'broken';
+
+export interface LinkHealth {
+  url: string;
+  state: LinkHealthState;
+  statusCode?: number;
+  // Where a redirecting link ends up
+  redirectUrl?: string;
+  // Why a broken link couldn't be reached (DNS failure, timeout, ...)
+  error?: string;
+}
+
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+
+export interface PaginationInfo {
+  currentPage: number;
+  totalPages: number;
+  totalItems: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  pagination: PaginationInfo;
+}
+
+// Inbox totals; `unread` only counts messages in the inbox
+export interface MessageCounts {
+  inbox: number;
+  unread: number;
+  archived: number;
+  spam: number;
+}
+
+export interface MessagePage extends PaginatedResponse<ContactMessage> {
+  counts: MessageCounts;
+}
+
+// Fields the create/update calls accept; uploaded files are passed alongside
+export type ProjectInput = Omit<Project, '_id' | 'order' | 'createdAt'>;
+export type SkillInput = Omit<Skill, '_id' | 'order'>;
+export type UrlCreateInput = Pick<ShortenedUrl, 'fullUrl'>;
+export type UrlUpdateInput = Pick<ShortenedUrl, 'fullUrl' | 'shortenUrl'>;
+
+export type ProjectFormValues = z.infer<typeof projectFormSchema>;
@@ -1,4 +1,5 @@
 // Image upload utility functions
+import { uploadAPI } from '@/lib/api';
 
 /**
  * Create a preview URL for a file without uploading
@@ -35,70 +36,13 @@ export const validateImageFile = (file: File): { valid: boolean; error?: string
 };
 
 /**
- * Upload image as binary FormData to backend
+ * Upload image as binary FormData to backend, returning its URL
  */
 export const uploadImage = async (file: File): Promise<string> => {
   const validation = validateImageFile(file);
   if (!validation.valid) {
     throw new Error(validation.error);
   }
-  
-  const formData = new FormData();
-  formData.append('image', file);
-  
-  try {
-    const response = await fetch('/api/upload', {
-      method: 'POST',
-      body: formData,
-      // Don't set Content-Type header - let browser set it with boundary for multipart/form-data
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Upload failed: ${response.status} ${errorText}`);
-    }
-    
-    const result = await response.json();
-    
-    // Assuming the API returns { url: "https://..." } or { success: true, url: "https://..." }
-    const imageUrl = result.url || result.data?.url;
-    if (!imageUrl) {
-      throw new Error('No image URL returned from server');
-    }
-    
-    return imageUrl;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error;
-    }
-    throw new Error('Failed to upload image');
-  }
-};
 
-/**
- * Example implementation for uploading to a backend API
- * Uncomment and modify this when you have a backend upload endpoint
- */
-/*
-export const uploadToBackend = async (file: File): Promise<string> => {
-  const validation = validateImageFile(file);
-  if (!validation.valid) {
-    throw new Error(validation.error);
-  }
-  
-  const formData = new FormData();
-  formData.append('image', file);
-  
-  const response = await fetch('/api/upload', {
-    method: 'POST',
-    body: formData,
-  });
-  
-  if (!response.ok) {
-    throw new Error('Upload failed');
-  }
-  
-  const result = await response.json();
-  return result.url; // Assuming the API returns { url: "https://..." }
+  return uploadAPI.image(file);
 };
-*/